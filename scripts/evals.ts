@@ -0,0 +1,101 @@
+/**
+ * Headless agent evaluation runner
+ *
+ * Runs agent scenarios (see ScenarioRunner) and prints a pass/fail report; the exit
+ * code is 1 when any scenario fails. Bundled and started by scripts/run-evals.mjs:
+ *
+ *   npm run eval -- [scenario files or folders] [--settings data.json] [--model ID] [--record DIR] [--concurrency N] [--verbose]
+ *
+ * Scenarios default to evals/scenarios. --settings loads the plugin's data.json for
+ * real model runs; --model runs every scenario on that model instead of its script.
+ * --record writes the LLM calls of real model runs to DIR, one fixture per scenario.
+ */
+
+import { DEFAULT_SETTINGS, LLMPluginSettings } from '../src/core/types';
+import { LLMProvider } from '../src/agents/types';
+import { LLMProviderRegistry } from '../src/agents/LLMProviderRegistry';
+import { ScenarioRunner } from '../src/evals/ScenarioRunner';
+import { formatEvalReport, loadScenarios } from '../src/evals/scenarioUtils';
+
+const DEFAULT_SCENARIO_PATH = 'evals/scenarios';
+
+interface EvalArgs {
+    paths: string[];
+    settings?: string;
+    model?: string;
+    record?: string;
+    concurrency: number;
+    verbose: boolean;
+}
+
+function parseArgs(argv: string[]): EvalArgs {
+    const args: EvalArgs = { paths: [], concurrency: 1, verbose: false };
+    for (let i = 0; i < argv.length; i++) {
+        switch (argv[i]) {
+            case '--settings':
+                args.settings = argv[++i];
+                break;
+            case '--model':
+                args.model = argv[++i];
+                break;
+            case '--record':
+                args.record = argv[++i];
+                break;
+            case '--concurrency':
+                args.concurrency = Number(argv[++i]) || 1;
+                break;
+            case '--verbose':
+                args.verbose = true;
+                break;
+            default:
+                args.paths.push(argv[i]);
+        }
+    }
+    return args;
+}
+
+async function loadProvider(settingsPath: string): Promise<LLMProvider> {
+    const fs = require('fs').promises;
+    const settings: LLMPluginSettings = Object.assign({}, DEFAULT_SETTINGS, JSON.parse(await fs.readFile(settingsPath, 'utf-8')));
+    return new LLMProviderRegistry(settings);
+}
+
+/**
+ * Mute the agent's console logging while scenarios run; returns the restore function
+ */
+function silenceConsole(): () => void {
+    const original = { log: console.log, info: console.info, warn: console.warn, error: console.error, debug: console.debug };
+    console.log = console.info = console.warn = console.error = console.debug = () => {};
+    return () => Object.assign(console, original);
+}
+
+async function main() {
+    const args = parseArgs(process.argv.slice(2));
+    const scenarios = await loadScenarios(args.paths.length > 0 ? args.paths : [DEFAULT_SCENARIO_PATH]);
+    if (scenarios.length === 0) {
+        console.error('No scenarios found');
+        process.exitCode = 1;
+        return;
+    }
+
+    const provider = args.settings ? await loadProvider(args.settings) : undefined;
+    if (args.model && !provider) {
+        throw new Error('--model needs --settings with the provider configuration');
+    }
+    if (args.record && !provider) {
+        throw new Error('--record needs --settings: only real model runs are recorded');
+    }
+
+    console.log(`🧪 Running ${scenarios.length} scenario(s)${args.model ? ` on ${args.model}` : ''}...\n`);
+    const restoreConsole = args.verbose ? () => {} : silenceConsole();
+    const results = await new ScenarioRunner({ provider, model: args.model, recordDir: args.record, concurrency: args.concurrency }).runAll(scenarios);
+    restoreConsole();
+
+    console.log(formatEvalReport(results));
+    process.exitCode = results.every(result => result.passed) ? 0 : 1;
+}
+
+main().catch(error => {
+    console.error('❌ Eval run failed:', error instanceof Error ? error.message : error);
+    process.exitCode = 1;
+});
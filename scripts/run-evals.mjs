@@ -0,0 +1,21 @@
+import esbuild from "esbuild";
+import os from "os";
+import path from "path";
+import { pathToFileURL } from "url";
+
+// Bundle the TypeScript eval runner for Node, then run it in this process
+// (arguments are passed through: npm run eval -- evals/scenarios --verbose)
+const outfile = path.join(os.tmpdir(), "llm-plugin-evals.cjs");
+
+await esbuild.build({
+    entryPoints: ["scripts/evals.ts"],
+    bundle: true,
+    platform: "node",
+    format: "cjs",
+    target: "node16",
+    external: ["obsidian", "electron"],
+    logLevel: "error",
+    outfile,
+});
+
+await import(pathToFileURL(outfile).href);
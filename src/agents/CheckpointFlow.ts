@@ -0,0 +1,26 @@
+import { BaseNode, Flow } from "pocketflow";
+
+/**
+ * PocketFlow Flow that reports the shared state after every node
+ * Runs nodes exactly like Flow._orchestrate and awaits `onNodeComplete` between
+ * them, so the state can be persisted before the next node starts
+ */
+export class CheckpointFlow<S> extends Flow<S> {
+    constructor(
+        start: BaseNode,
+        private onNodeComplete: (shared: S) => Promise<void>
+    ) {
+        super(start);
+    }
+
+    protected async _orchestrate(shared: S, params?: any): Promise<void> {
+        let current: BaseNode | undefined = this.start.clone();
+        const p = params || this._params;
+        while (current) {
+            current.setParams(p);
+            const action = await current._run(shared);
+            await this.onNodeComplete(shared);
+            current = current.getNextNode(action)?.clone();
+        }
+    }
+}
@@ -0,0 +1,233 @@
+import { LLMProvider, ProviderChatRequest, ProviderChatResponse } from './types';
+import { DEFAULT_MODEL_CAPABILITIES, LLMPluginSettings, LLMProviderConfig, ModelCapabilities, ModelDefinition, ModelPricing, TokenUsage } from '../core/types';
+import { LLMWilsonProvider } from './LLMWilsonProvider';
+import { OpenAICompatibleProvider } from './OpenAICompatibleProvider';
+import { calculateCost, UsageListener } from '../utils/usageUtils';
+import { shouldFallback } from '../utils/retryUtils';
+
+/**
+ * Built-in provider ID for the FastAPI LLM Connector backend
+ */
+export const LLM_CONNECTOR_PROVIDER_ID = 'llm-connector';
+
+export interface ResolvedModel {
+    providerId: string;
+    provider: LLMProvider;
+    model?: string; // Model name understood by the provider
+    definition?: ModelDefinition;
+}
+
+/**
+ * Registry of LLM providers keyed by provider ID
+ *
+ * Each ModelDefinition picks its provider via `provider`; models without one
+ * (or unknown model IDs) go to the LLM Connector backend as before.
+ * The registry itself implements LLMProvider and routes every call by model ID,
+ * so it can be injected anywhere a single provider was used.
+ * Token usage reported by providers is priced from settings.modelPricing and
+ * forwarded to usage listeners (e.g. the agent run that made the call).
+ * callLLM/callLLMWithSchema walk the model's fallback chain on 429/5xx errors;
+ * chat() does not, because LLMService walks the chain for chat mode itself.
+ * Providers look up model capabilities through the registry to decide on JSON mode
+ * and output limits.
+ */
+export class LLMProviderRegistry implements LLMProvider {
+    private registeredProviders: Map<string, LLMProvider> = new Map();
+    private usageListeners: Set<UsageListener> = new Set();
+
+    constructor(private settings: LLMPluginSettings) {}
+
+    /**
+     * Register a provider instance, overriding any configured provider with the same ID
+     */
+    register(providerId: string, provider: LLMProvider): void {
+        this.registeredProviders.set(providerId, provider);
+        provider.addUsageListener?.(usage => this.reportUsage(usage));
+    }
+
+    /**
+     * Get a provider by ID
+     * Providers from settings are built on demand so setting changes apply immediately
+     */
+    getProvider(providerId: string): LLMProvider {
+        const registered = this.registeredProviders.get(providerId);
+        if (registered) {
+            return registered;
+        }
+
+        if (providerId === LLM_CONNECTOR_PROVIDER_ID) {
+            return new LLMWilsonProvider(
+                this.settings.llmConnectorApiUrl || 'http://localhost:49153',
+                this.settings.llmConnectorApiKey || 'your_api_key',
+                usage => this.reportUsage(usage),
+                this
+            );
+        }
+
+        const config = (this.settings.providers || []).find(p => p.id === providerId);
+        if (!config) {
+            throw new Error(`Unknown LLM provider: ${providerId}`);
+        }
+
+        return this.createProvider(config);
+    }
+
+    /**
+     * Find the model definition for a model ID across chat and agent model lists
+     */
+    getModelDefinition(modelId?: string): ModelDefinition | undefined {
+        if (!modelId) {
+            return undefined;
+        }
+        const allModels = [...(this.settings.models || []), ...(this.settings.agentModels || [])];
+        return allModels.find(m => m.id === modelId);
+    }
+
+    /**
+     * Resolve which provider serves a model and the name to send it
+     */
+    resolveModel(modelId?: string): ResolvedModel {
+        const definition = this.getModelDefinition(modelId);
+        const providerId = definition?.provider || LLM_CONNECTOR_PROVIDER_ID;
+
+        return {
+            providerId,
+            provider: this.getProvider(providerId),
+            model: definition?.model || modelId,
+            definition
+        };
+    }
+
+    /**
+     * Find capabilities for a model by model ID, or by the provider model name a definition maps to
+     * Default models without declared capabilities get their built-in ones
+     */
+    getCapabilities(modelName?: string): ModelCapabilities | undefined {
+        if (!modelName) {
+            return undefined;
+        }
+
+        const byId = this.getModelDefinition(modelName);
+        if (byId?.capabilities) {
+            return byId.capabilities;
+        }
+
+        const allModels = [...(this.settings.models || []), ...(this.settings.agentModels || [])];
+        return allModels.find(m => m.model === modelName && m.capabilities)?.capabilities
+            || DEFAULT_MODEL_CAPABILITIES[modelName];
+    }
+
+    /**
+     * Get the ordered list of models to try for a model ID: the model itself, then its fallbacks
+     */
+    getFallbackChain(modelId: string): string[] {
+        const chain = [modelId];
+        for (const fallback of this.getModelDefinition(modelId)?.fallbacks || []) {
+            if (fallback && !chain.includes(fallback)) {
+                chain.push(fallback);
+            }
+        }
+        return chain;
+    }
+
+    /**
+     * Check whether a model is served by the LLM Connector backend
+     */
+    usesBackend(modelId?: string): boolean {
+        const definition = this.getModelDefinition(modelId);
+        return (definition?.provider || LLM_CONNECTOR_PROVIDER_ID) === LLM_CONNECTOR_PROVIDER_ID;
+    }
+
+    /**
+     * Subscribe to the priced token usage of every call made through this registry
+     */
+    addUsageListener(listener: UsageListener): () => void {
+        this.usageListeners.add(listener);
+        return () => {
+            this.usageListeners.delete(listener);
+        };
+    }
+
+    /**
+     * Find pricing for a model by model ID, or by the provider model name a definition maps to
+     */
+    getModelPricing(modelName?: string): ModelPricing | undefined {
+        if (!modelName) {
+            return undefined;
+        }
+
+        const pricingTable = this.settings.modelPricing || {};
+        if (pricingTable[modelName]) {
+            return pricingTable[modelName];
+        }
+
+        const allModels = [...(this.settings.models || []), ...(this.settings.agentModels || [])];
+        const definition = allModels.find(m => m.model === modelName && pricingTable[m.id]);
+        return definition ? pricingTable[definition.id] : undefined;
+    }
+
+    /**
+     * Attach cost to a usage record when the model has pricing configured
+     */
+    priceUsage(usage: TokenUsage): TokenUsage {
+        const pricing = this.getModelPricing(usage.model);
+        return pricing ? { ...usage, cost: calculateCost(usage, pricing) } : usage;
+    }
+
+    async callLLM(prompt: string, model?: string, system?: string): Promise<string> {
+        return this.withFallback(model, resolved => resolved.provider.callLLM(prompt, resolved.model, system));
+    }
+
+    async callLLMWithSchema(prompt: string, schema: any, model?: string, system?: string): Promise<any> {
+        return this.withFallback(model, resolved => resolved.provider.callLLMWithSchema(prompt, schema, resolved.model, system));
+    }
+
+    async chat(request: ProviderChatRequest): Promise<ProviderChatResponse> {
+        const resolved = this.resolveModel(request.model);
+        if (!resolved.provider.chat) {
+            throw new Error(`Provider "${resolved.providerId}" does not support message-based chat`);
+        }
+        const response = await resolved.provider.chat({ ...request, model: resolved.model });
+        if (response.usage) {
+            response.usage = this.priceUsage(response.usage);
+        }
+        return response;
+    }
+
+    /**
+     * Run a call against each model in the fallback chain until one succeeds
+     * Only rate limit and server errors move on to the next model
+     */
+    private async withFallback<T>(modelId: string | undefined, call: (resolved: ResolvedModel) => Promise<T>): Promise<T> {
+        const chain = modelId ? this.getFallbackChain(modelId) : [undefined];
+
+        for (let i = 0; ; i++) {
+            try {
+                return await call(this.resolveModel(chain[i]));
+            } catch (error) {
+                if (i === chain.length - 1 || !shouldFallback(error)) {
+                    throw error;
+                }
+                console.warn(`⚠️ LLMProviderRegistry: Model "${chain[i]}" failed (${error instanceof Error ? error.message : String(error)}), falling back to "${chain[i + 1]}"`);
+            }
+        }
+    }
+
+    private reportUsage(usage: TokenUsage): void {
+        const priced = this.priceUsage(usage);
+        this.usageListeners.forEach(listener => listener(priced));
+    }
+
+    private createProvider(config: LLMProviderConfig): LLMProvider {
+        switch (config.type) {
+            case 'openai-compatible':
+                return new OpenAICompatibleProvider(
+                    config,
+                    usage => this.reportUsage(usage),
+                    this
+                );
+            default:
+                throw new Error(`Unsupported provider type: ${(config as LLMProviderConfig).type}`);
+        }
+    }
+}
@@ -1,4 +1,8 @@
 import { LLMProvider } from './types';
+import { LLMProviderRegistry } from './LLMProviderRegistry';
+import { buildSchemaPrompt, buildSchemaRepairPrompt, parseJsonWithSchema } from '../utils/jsonUtils';
+import { estimateUsage, parseUsage, UsageListener } from '../utils/usageUtils';
+import { shouldFallback } from '../utils/retryUtils';
 
 /**
  * LLM Provider implementation using FastAPI wrapper around Simon Wilson's LLM CLI
@@ -9,7 +13,12 @@ export class LLMWilsonProvider implements LLMProvider {
     private baseUrl: string;
     private apiKey: string;
 
-    constructor(baseUrl: string = 'http://localhost:49153', apiKey: string = 'your_api_key') {
+    constructor(
+        baseUrl: string = 'http://localhost:49153',
+        apiKey: string = 'your_api_key',
+        private onUsage?: UsageListener, // Receives token usage of every call (see LLMProviderRegistry)
+        private registry?: LLMProviderRegistry // Owns the model definitions, so capability lookups go through it
+    ) {
         this.baseUrl = baseUrl;
         this.apiKey = apiKey;
     }
@@ -51,43 +60,46 @@ export class LLMWilsonProvider implements LLMProvider {
 
             if (!response.ok) {
                 const errorText = await response.text();
-                throw new Error(`HTTP ${response.status}: ${errorText}`);
+                throw this.createHttpError(response.status, errorText);
             }
 
             const result = await response.json();
             console.log(`✅ LLMWilsonProvider: Got HTTP response`);
             
             // Extract the result - the API should return the LLM output
+            let output: string;
             if (typeof result === 'string') {
-                return result;
+                output = result;
             } else if (result.output || result.result || result.response) {
-                return result.output || result.result || result.response;
+                output = result.output || result.result || result.response;
             } else {
                 // If the result is a JSON object, convert to string
-                return JSON.stringify(result);
+                output = JSON.stringify(result);
             }
+
+            this.reportUsage(result, requestBody.prompt, output, validModel, system);
+            return output;
             
         } catch (error) {
             console.error('❌ LLMWilsonProvider HTTP call failed:', error);
-            throw new Error(`Agent Mode LLM call failed: ${error instanceof Error ? error.message : String(error)}`);
+            const wrappedError = new Error(`Agent Mode LLM call failed: ${error instanceof Error ? error.message : String(error)}`);
+            (wrappedError as any).response = (error as any)?.response; // Keep HTTP status for model fallback
+            throw wrappedError;
         }
     }
 
     /**
      * Call LLM with schema constraints for structured output using JSON mode
      * Uses the FastAPI json_mode parameter for better structured output
+     * Every response is validated against the schema; on failure the model is
+     * re-prompted with its previous output and the exact validation errors
      */
     async callLLMWithSchema(prompt: string, schema: any, model?: string, system?: string, maxRetries: number = 3): Promise<any> {
         console.log('🔧 LLMWilsonProvider: Starting schema call with model:', model || 'default');
         
         // Build enhanced prompt with schema 
-        const schemaJson = JSON.stringify(schema, null, 2);
-        const enhancedPrompt = `${prompt}
-
-Please format your response as a valid JSON object conforming to the following schema:
-${schemaJson}
-
-Only return valid JSON, nothing else.`;
+        const enhancedPrompt = buildSchemaPrompt(prompt, schema);
+        let attemptPrompt = enhancedPrompt;
         
         const errors: string[] = [];
         
@@ -99,8 +111,8 @@ Only return valid JSON, nothing else.`;
                 const validModel = this.validateModel(model);
                 
                 const requestBody: any = {
-                    prompt: enhancedPrompt,
-                    json_mode: true // Use JSON mode for structured output
+                    prompt: attemptPrompt,
+                    json_mode: this.supportsJsonMode(validModel) // Use JSON mode for structured output
                 };
                 
                 // Add model if specified
@@ -113,7 +125,7 @@ Only return valid JSON, nothing else.`;
                     requestBody.options = ['-s', system];
                 }
                 
-                console.log(`🔧 LLMWilsonProvider: Calling ${this.baseUrl}/llm with json_mode=true`);
+                console.log(`🔧 LLMWilsonProvider: Calling ${this.baseUrl}/llm with json_mode=${requestBody.json_mode}`);
                 
                 const response = await fetch(`${this.baseUrl}/llm`, {
                     method: 'POST',
@@ -126,7 +138,7 @@ Only return valid JSON, nothing else.`;
                 
                 if (!response.ok) {
                     const errorText = await response.text();
-                    throw new Error(`HTTP ${response.status}: ${errorText}`);
+                    throw this.createHttpError(response.status, errorText);
                 }
                 
                 const result = await response.json();
@@ -141,29 +153,27 @@ Only return valid JSON, nothing else.`;
                 } else {
                     jsonStr = JSON.stringify(result);
                 }
+
+                // Failed parses still cost tokens, so report before parsing
+                this.reportUsage(result, attemptPrompt, jsonStr, validModel, system);
                 
-                // Clean up the JSON string if needed
-                if (jsonStr.includes('```json')) {
-                    const parts = jsonStr.split('```json');
-                    if (parts.length > 1) {
-                        const jsonPart = parts[1].split('```')[0];
-                        if (jsonPart) {
-                            jsonStr = jsonPart.trim();
-                        }
-                    }
-                } else if (jsonStr.includes('```')) {
-                    const parts = jsonStr.split('```');
-                    if (parts.length > 2) {
-                        jsonStr = parts[1].trim();
-                    }
+                try {
+                    // Clean up the JSON string if needed, parse and validate it
+                    const parsed = parseJsonWithSchema(jsonStr, schema);
+                    console.log('✅ LLMWilsonProvider: Successfully parsed valid JSON on attempt', attempt + 1);
+                    return parsed;
+                } catch (validationError) {
+                    // Next attempt shows the model its output and what was wrong with it
+                    attemptPrompt = buildSchemaRepairPrompt(enhancedPrompt, jsonStr, validationError);
+                    throw validationError;
                 }
                 
-                // Parse the JSON
-                const parsed = JSON.parse(jsonStr);
-                console.log('✅ LLMWilsonProvider: Successfully parsed JSON on attempt', attempt + 1);
-                return parsed;
-                
             } catch (error) {
+                // Rate limits and server errors won't be fixed by re-asking the same model
+                if (shouldFallback(error)) {
+                    throw error;
+                }
+
                 const errorMsg = `Attempt ${attempt + 1}: ${error instanceof Error ? error.message : String(error)}`;
                 errors.push(errorMsg);
                 console.warn(`⚠️ LLMWilsonProvider: ${errorMsg}`);
@@ -181,6 +191,36 @@ Only return valid JSON, nothing else.`;
         throw new Error(`Failed to get valid JSON after ${maxRetries} attempts:\n${errorMsg}`);
     }
 
+    /**
+     * Create an HTTP error carrying response.status (used by retry and model fallback logic)
+     */
+    private createHttpError(status: number, errorText: string): Error {
+        const error = new Error(`HTTP ${status}: ${errorText}`);
+        (error as any).response = { status };
+        return error;
+    }
+
+    /**
+     * Report token usage from the API response, estimating it when the backend sends none
+     */
+    private reportUsage(result: any, prompt: string, output: string, model: string, system?: string): void {
+        if (!this.onUsage) {
+            return;
+        }
+
+        const usage = parseUsage(result?.usage, model)
+            || estimateUsage(system ? `${system}\n${prompt}` : prompt, output, model);
+        this.onUsage(usage);
+    }
+
+    /**
+     * Check the model's capability metadata before asking the backend for JSON mode
+     * Without JSON mode the schema instructions in the prompt still apply
+     */
+    private supportsJsonMode(model: string): boolean {
+        return this.registry?.getCapabilities(model)?.jsonMode !== false;
+    }
+
     /**
      * Validate model name and provide fallback
      * Keep original model names for HTTP API
@@ -1,15 +1,22 @@
 import { MCPClient, MCPTool } from './types';
 import { MCPClientService } from '../services/MCPClientService';
+import { VaultToolProvider, VAULT_SERVER } from './VaultToolProvider';
+import { classifyToolError, ToolCallError } from '../utils/actionErrorUtils';
 
 /**
  * Adapter to make MCPClientService compatible with the agent's MCPClient interface
  * Provides dependency injection for the ReAct agent
+ * Failed calls throw a ToolCallError carrying the failure's kind (cancellation stays an AbortError)
+ * Built-in vault tools, when provided, are listed as one more server
  */
 export class MCPClientAdapter implements MCPClient {
-    constructor(private mcpClientService: MCPClientService) {}
+    constructor(
+        private mcpClientService: MCPClientService,
+        private vaultTools?: VaultToolProvider
+    ) {}
 
     /**
-     * Get all tools from all MCP servers
+     * Get all tools from all MCP servers and the built-in vault tools
      */
     async getAllTools(): Promise<Record<string, MCPTool[]>> {
         try {
@@ -32,6 +39,11 @@ export class MCPClientAdapter implements MCPClient {
                     server: serverName
                 });
             }
+
+            const vaultTools = this.vaultTools?.getTools() || [];
+            if (vaultTools.length > 0) {
+                toolsByServer[VAULT_SERVER] = vaultTools;
+            }
             
             return toolsByServer;
         } catch (error) {
@@ -49,6 +61,11 @@ export class MCPClientAdapter implements MCPClient {
             if (signal?.aborted) {
                 throw new DOMException('Operation was cancelled', 'AbortError');
             }
+
+            // Built-in vault tools run in-process
+            if (serverName === VAULT_SERVER && this.vaultTools) {
+                return await this.vaultTools.callTool(toolName, parameters, signal);
+            }
             
             // Create a tool call in the format expected by MCPClientService
             const toolCall = {
@@ -68,7 +85,10 @@ export class MCPClientAdapter implements MCPClient {
             const result = results[0];
             
             if (!result.success) {
-                throw new Error(result.error || 'Tool execution failed');
+                if (result.errorKind === 'cancelled') {
+                    throw new DOMException(result.error || 'Operation was cancelled', 'AbortError');
+                }
+                throw new ToolCallError(result.errorKind || 'tool_error', result.error || 'Tool execution failed');
             }
             
             // Convert result content to string
@@ -86,7 +106,9 @@ export class MCPClientAdapter implements MCPClient {
                 console.log(`🛑 Tool ${toolName} on server ${serverName} was cancelled`);
                 throw error; // Re-throw cancellation to bubble up
             }
-            throw new Error(`Failed to call tool ${toolName} on server ${serverName}: ${error instanceof Error ? error.message : String(error)}`);
+            // Keep the error's kind so the agent knows whether to retry
+            const { kind, message, retryable } = classifyToolError(error);
+            throw new ToolCallError(kind, `Failed to call tool ${toolName} on server ${serverName}: ${message}`, retryable);
         }
     }
 }
\ No newline at end of file
@@ -0,0 +1,330 @@
+import { LLMProvider, ProviderChatRequest, ProviderChatResponse, ProviderMessage, ProviderToolCall } from './types';
+import { LLMProviderConfig } from '../core/types';
+import { LLMProviderRegistry } from './LLMProviderRegistry';
+import { buildSchemaPrompt, buildSchemaRepairPrompt, parseJsonWithSchema } from '../utils/jsonUtils';
+import { readSSEStream } from '../utils/streamUtils';
+import { estimateUsage, parseUsage, UsageListener } from '../utils/usageUtils';
+import { shouldFallback } from '../utils/retryUtils';
+
+/**
+ * LLM Provider implementation for any OpenAI-compatible /v1/chat/completions endpoint
+ * Works with OpenAI, OpenRouter, Ollama, LM Studio, vLLM and similar servers
+ * Lets chat mode and the ReAct agent run without the Python LLM Connector backend
+ */
+export class OpenAICompatibleProvider implements LLMProvider {
+    constructor(
+        private config: LLMProviderConfig,
+        private onUsage?: UsageListener, // Receives token usage of every call (see LLMProviderRegistry)
+        private registry?: LLMProviderRegistry // Owns the model definitions, so capability lookups go through it
+    ) {}
+
+    /**
+     * Call LLM with a single prompt and optional system prompt
+     * Note: Retry logic is handled by PocketFlow at the Node level
+     */
+    async callLLM(prompt: string, model?: string, system?: string): Promise<string> {
+        try {
+            const response = await this.chat({
+                messages: this.buildMessages(prompt, system),
+                model
+            });
+            return response.content;
+        } catch (error) {
+            console.error(`❌ OpenAICompatibleProvider (${this.config.id}) call failed:`, error);
+            const wrappedError = new Error(`Agent Mode LLM call failed: ${error instanceof Error ? error.message : String(error)}`);
+            (wrappedError as any).response = (error as any)?.response; // Keep HTTP status for model fallback
+            throw wrappedError;
+        }
+    }
+
+    /**
+     * Call LLM with schema constraints for structured output using JSON mode
+     * Responses are validated against the schema and repaired by re-prompting (see LLMWilsonProvider)
+     */
+    async callLLMWithSchema(prompt: string, schema: any, model?: string, system?: string, maxRetries: number = 3): Promise<any> {
+        console.log(`🔧 OpenAICompatibleProvider (${this.config.id}): Starting schema call with model:`, model || 'default');
+
+        const enhancedPrompt = buildSchemaPrompt(prompt, schema);
+        let attemptPrompt = enhancedPrompt;
+        const errors: string[] = [];
+
+        for (let attempt = 0; attempt < maxRetries; attempt++) {
+            try {
+                console.log(`🔧 OpenAICompatibleProvider: Schema attempt ${attempt + 1}/${maxRetries}`);
+
+                const response = await this.chat({
+                    messages: this.buildMessages(attemptPrompt, system),
+                    model,
+                    jsonMode: true
+                });
+
+                try {
+                    const parsed = parseJsonWithSchema(response.content, schema);
+                    console.log('✅ OpenAICompatibleProvider: Successfully parsed valid JSON on attempt', attempt + 1);
+                    return parsed;
+                } catch (validationError) {
+                    // Next attempt shows the model its output and what was wrong with it
+                    attemptPrompt = buildSchemaRepairPrompt(enhancedPrompt, response.content, validationError);
+                    throw validationError;
+                }
+
+            } catch (error) {
+                // Rate limits and server errors won't be fixed by re-asking the same model
+                if (shouldFallback(error)) {
+                    throw error;
+                }
+
+                const errorMsg = `Attempt ${attempt + 1}: ${error instanceof Error ? error.message : String(error)}`;
+                errors.push(errorMsg);
+                console.warn(`⚠️ OpenAICompatibleProvider: ${errorMsg}`);
+            }
+        }
+
+        const errorMsg = errors.join('\n');
+        console.error('❌ OpenAICompatibleProvider: All schema attempts failed:', errorMsg);
+        throw new Error(`Failed to get valid JSON after ${maxRetries} attempts:\n${errorMsg}`);
+    }
+
+    /**
+     * Send a message-based request to /chat/completions
+     * Throws errors carrying response.status so withRetry can decide whether to retry
+     */
+    async chat(request: ProviderChatRequest): Promise<ProviderChatResponse> {
+        if (!request.model) {
+            throw new Error(`Provider "${this.config.id}" requires a model name`);
+        }
+
+        const requestBody: any = {
+            model: request.model,
+            messages: request.messages.map(message => this.toOpenAIMessage(message))
+        };
+
+        const capabilities = this.registry?.getCapabilities(request.model);
+
+        // Models without JSON mode still get the schema instructions in the prompt
+        if (request.jsonMode && capabilities?.jsonMode !== false) {
+            requestBody.response_format = { type: 'json_object' };
+        }
+
+        if (capabilities?.maxOutputTokens) {
+            requestBody.max_tokens = capabilities.maxOutputTokens;
+        }
+
+        if (request.tools && request.tools.length > 0) {
+            // Only send the standard fields - extras like `server` are rejected by strict APIs
+            requestBody.tools = request.tools.map(tool => ({
+                type: 'function',
+                function: tool.function
+            }));
+        }
+
+        if (request.onToken) {
+            requestBody.stream = true;
+            requestBody.stream_options = { include_usage: true };
+        }
+
+        const url = this.getCompletionsUrl();
+        console.log(`🔧 OpenAICompatibleProvider: Calling ${url} with model "${request.model}"`);
+
+        const response = await fetch(url, {
+            method: 'POST',
+            headers: this.getHeaders(),
+            body: JSON.stringify(requestBody),
+            signal: request.signal
+        });
+
+        if (!response.ok) {
+            const errorText = await response.text();
+            const error = new Error(`HTTP ${response.status}: ${errorText || response.statusText}`);
+            (error as any).response = { status: response.status };
+            throw error;
+        }
+
+        const result = request.onToken
+            ? await this.readStreamingResponse(response, request)
+            : await this.readJsonResponse(response, request);
+
+        result.usage = result.usage || estimateUsage(
+            request.messages.map(message => message.content).join('\n'),
+            result.content,
+            request.model
+        );
+        this.onUsage?.(result.usage);
+
+        return result;
+    }
+
+    /**
+     * Read a non-streamed completion
+     */
+    private async readJsonResponse(response: Response, request: ProviderChatRequest): Promise<ProviderChatResponse> {
+        const data = await response.json();
+        const message = data.choices?.[0]?.message;
+        const toolCalls = this.parseToolCalls(message?.tool_calls);
+        const content = message?.content;
+
+        if (typeof content !== 'string' && toolCalls.length === 0) {
+            throw new Error(`Provider "${this.config.id}" returned no message content`);
+        }
+
+        const model = data.model || request.model;
+        return {
+            content: content || '',
+            model,
+            toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+            usage: parseUsage(data.usage, request.model) // Requested name, so pricing lookups match
+        };
+    }
+
+    /**
+     * Accumulate a streamed completion, forwarding each content delta to onToken
+     */
+    private async readStreamingResponse(response: Response, request: ProviderChatRequest): Promise<ProviderChatResponse> {
+        let content = '';
+        let model = request.model || '';
+        let rawUsage: any;
+        // Tool call fragments arrive keyed by index; name/arguments are split across chunks
+        const toolCallParts: any[] = [];
+
+        await readSSEStream(response, data => {
+            const chunk = JSON.parse(data);
+            if (chunk.error) {
+                throw new Error(`Provider "${this.config.id}" stream error: ${chunk.error.message || JSON.stringify(chunk.error)}`);
+            }
+            if (chunk.model) {
+                model = chunk.model;
+            }
+            if (chunk.usage) {
+                rawUsage = chunk.usage; // Sent in the final chunk when include_usage is honored
+            }
+            const delta = chunk.choices?.[0]?.delta;
+            if (typeof delta?.content === 'string' && delta.content) {
+                content += delta.content;
+                request.onToken?.(delta.content);
+            }
+            for (const fragment of delta?.tool_calls || []) {
+                const index = fragment.index ?? 0;
+                if (!toolCallParts[index]) {
+                    toolCallParts[index] = { id: '', function: { name: '', arguments: '' } };
+                }
+                const part = toolCallParts[index];
+                part.id = fragment.id || part.id;
+                part.function.name += fragment.function?.name || '';
+                part.function.arguments += fragment.function?.arguments || '';
+            }
+        });
+
+        const toolCalls = this.parseToolCalls(toolCallParts.filter(Boolean));
+        return {
+            content,
+            model,
+            toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+            usage: parseUsage(rawUsage, request.model)
+        };
+    }
+
+    /**
+     * Convert OpenAI tool_calls to provider tool calls, parsing the JSON-encoded arguments
+     */
+    private parseToolCalls(rawToolCalls: any[] | undefined): ProviderToolCall[] {
+        return (rawToolCalls || []).map((call: any, index: number) => {
+            let args: Record<string, any> = {};
+            const rawArgs = call.function?.arguments;
+            if (rawArgs && typeof rawArgs === 'object') {
+                args = rawArgs;
+            } else if (rawArgs) {
+                try {
+                    args = JSON.parse(rawArgs);
+                } catch (error) {
+                    console.warn(`⚠️ OpenAICompatibleProvider: Could not parse arguments for tool ${call.function?.name}:`, rawArgs);
+                }
+            }
+
+            return {
+                id: call.id || `tool_call_${index}`,
+                name: call.function?.name || '',
+                arguments: args
+            };
+        });
+    }
+
+    private buildMessages(prompt: string, system?: string): ProviderMessage[] {
+        const messages: ProviderMessage[] = [];
+        if (system) {
+            messages.push({ role: 'system', content: system });
+        }
+        messages.push({ role: 'user', content: prompt });
+        return messages;
+    }
+
+    /**
+     * Convert a provider message to the OpenAI wire format
+     * Messages with images use the multi-part content array
+     */
+    private toOpenAIMessage(message: ProviderMessage): any {
+        if (message.role === 'tool') {
+            return { role: 'tool', tool_call_id: message.toolCallId, content: message.content };
+        }
+
+        if (message.toolCalls && message.toolCalls.length > 0) {
+            return {
+                role: message.role,
+                content: message.content || null,
+                tool_calls: message.toolCalls.map(call => ({
+                    id: call.id,
+                    type: 'function',
+                    function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+                }))
+            };
+        }
+
+        if (!message.images || message.images.length === 0) {
+            return { role: message.role, content: message.content };
+        }
+
+        return {
+            role: message.role,
+            content: [
+                { type: 'text', text: message.content },
+                ...message.images.map(image => ({
+                    type: 'image_url',
+                    image_url: { url: this.toImageUrl(image) }
+                }))
+            ]
+        };
+    }
+
+    /**
+     * Convert an attached image (data URL or local path) to a URL the API accepts
+     */
+    private toImageUrl(image: string): string {
+        if (image.startsWith('data:') || image.startsWith('http://') || image.startsWith('https://')) {
+            return image;
+        }
+
+        const fs = require('fs');
+        const path = require('path');
+        const extension = path.extname(image).toLowerCase().replace('.', '');
+        const mimeType = extension === 'jpg' ? 'image/jpeg' : `image/${extension || 'png'}`;
+        const data = fs.readFileSync(image).toString('base64');
+        return `data:${mimeType};base64,${data}`;
+    }
+
+    private getCompletionsUrl(): string {
+        const baseUrl = this.config.baseUrl.replace(/\/+$/, '');
+        return baseUrl.endsWith('/v1')
+            ? `${baseUrl}/chat/completions`
+            : `${baseUrl}/v1/chat/completions`;
+    }
+
+    private getHeaders(): Record<string, string> {
+        const headers: Record<string, string> = {
+            'Content-Type': 'application/json',
+            ...(this.config.headers || {})
+        };
+        if (this.config.apiKey) {
+            headers['Authorization'] = `Bearer ${this.config.apiKey}`;
+        }
+        return headers;
+    }
+}
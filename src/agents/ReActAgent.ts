@@ -156,7 +156,7 @@ export class ReActAgent {
             await this.runNode(this.reasoningNode, state);
             
             // Check if agent decided to complete
-            if (!state.nextAction) {
+            if (!state.nextActions || state.nextActions.length === 0) {
                 console.log('✅ Agent decided to complete - no more actions needed');
                 break;
             }
@@ -1,12 +1,30 @@
 import { Flow } from "pocketflow";
-import { AgentSharedState, LLMProvider, MCPClient, ModelConfig, ProgressCallback } from './types';
+import { AgentMemory, AgentProfile, AgentRunSnapshot, AgentRunStatus, AgentRunTrace, AgentSharedState, LLMProvider, MCPClient, ModelConfig, PlanEditHandler, ProgressCallback, ToolApprovalHandler } from './types';
 import { DiscoverToolsNode } from './nodes/DiscoverToolsNode';
+import { ToolRetrievalNode } from './nodes/ToolRetrievalNode';
+import { PlanningNode } from './nodes/PlanningNode';
 import { ReActReasoningNode } from './nodes/ReActReasoningNode';
 import { ReActActionNode } from './nodes/ReActActionNode';
 import { LLMProcessingNode } from './nodes/LLMProcessingNode';
 import { SummarizeResultsNode } from './nodes/SummarizeResultsNode';
+import { ReflectionNode } from './nodes/ReflectionNode';
 import { GeminiImageNode } from './nodes/GeminiImageNode';
 import { GeminiTTSNode } from './nodes/GeminiTTSNode';
+import { CheckpointFlow } from './CheckpointFlow';
+import { AgentRunStore } from '../services/AgentRunStore';
+import { AgentBudget, TokenUsage } from '../core/types';
+import { addUsage, formatUsage } from '../utils/usageUtils';
+import { applyProfileModels } from '../utils/profileUtils';
+
+/**
+ * Outcome of an agent run: final response, generated images, token usage and the run trace
+ */
+export interface AgentRunResult {
+    result: string;
+    images?: string[];
+    usage?: TokenUsage;
+    trace?: AgentRunTrace;
+}
 
 /**
  * PocketFlow-based ReAct Agent using proper Flow class and node chaining
@@ -15,12 +33,17 @@ import { GeminiTTSNode } from './nodes/GeminiTTSNode';
 export class ReActFlow {
     private flow: Flow<AgentSharedState>;
     private discoverToolsNode: DiscoverToolsNode;
+    private toolRetrievalNode: ToolRetrievalNode;
+    private planningNode: PlanningNode;
     private reasoningNode: ReActReasoningNode;
     private actionNode: ReActActionNode;
     private llmProcessingNode: LLMProcessingNode;
     private imageNode: GeminiImageNode;
     private ttsNode: GeminiTTSNode;
+    private reflectionNode: ReflectionNode;
     private summarizeNode: SummarizeResultsNode;
+    private runStore?: AgentRunStore;
+    private checkpointQueue: Promise<void> = Promise.resolve();
 
     constructor(
         private llmProvider: LLMProvider,
@@ -38,18 +61,26 @@ export class ReActFlow {
     ) {
         // Initialize PocketFlow nodes
         this.discoverToolsNode = new DiscoverToolsNode(mcpClient, 1, 1);
+        this.toolRetrievalNode = new ToolRetrievalNode(1, 1);
+        this.planningNode = new PlanningNode(llmProvider, reasoningRetries, 2);
         this.reasoningNode = new ReActReasoningNode(llmProvider, reasoningRetries, 2);
         this.actionNode = new ReActActionNode(mcpClient, actionRetries, 1);
         this.llmProcessingNode = new LLMProcessingNode(llmProvider, llmProcessingRetries, 1);
         this.imageNode = new GeminiImageNode(geminiApiKey, llmProvider, imageGenerationRetries, 2);
         this.ttsNode = new GeminiTTSNode(geminiApiKey, llmProvider, ttsRetries, 5);
+        this.reflectionNode = new ReflectionNode(llmProvider, reasoningRetries, 2);
         this.summarizeNode = new SummarizeResultsNode(llmProvider, summarizeRetries, 1);
 
         // Set up PocketFlow node chaining with conditional branching
         this.setupNodeChaining();
 
-        // Create the Flow starting with tool discovery
-        this.flow = new Flow<AgentSharedState>(this.discoverToolsNode);
+        // Persist run snapshots in the plugin folder so runs can be resumed
+        if (pluginDataPath) {
+            this.runStore = new AgentRunStore(pluginDataPath);
+        }
+
+        // Create the Flow starting with tool discovery, saving a snapshot after every node
+        this.flow = new CheckpointFlow<AgentSharedState>(this.discoverToolsNode, (shared) => this.saveCheckpoint(shared, 'running'));
     }
 
     /**
@@ -57,15 +88,17 @@ export class ReActFlow {
      * Following PocketFlow patterns for automatic workflow execution
      */
     private setupNodeChaining(): void {
-        // Step 1: Tool Discovery -> Reasoning
-        this.discoverToolsNode.next(this.reasoningNode);
+        // Step 1: Tool Discovery -> Tool Indexing (large catalogs only) -> Planning (plan-and-execute mode only) -> Reasoning
+        this.discoverToolsNode.next(this.toolRetrievalNode);
+        this.toolRetrievalNode.next(this.planningNode);
+        this.planningNode.next(this.reasoningNode);
 
         // Step 2: Reasoning -> 5-way routing (UNIFIED MULTIMODAL PROCESSING)
         this.reasoningNode.on("continue", this.actionNode);           // External MCP actions
         this.reasoningNode.on("llm_processing", this.llmProcessingNode); // Internal LLM processing
         this.reasoningNode.on("process_image", this.imageNode);       // Unified image processing (generation + editing)
         this.reasoningNode.on("generate_speech", this.ttsNode);       // Text-to-speech generation
-        this.reasoningNode.on("complete", this.summarizeNode);        // Final summary
+        this.reasoningNode.on("complete", this.reflectionNode);       // Self-critique, then final summary
 
         // Step 3: Action routing
         this.actionNode.on("default", this.reasoningNode);
@@ -73,6 +106,8 @@ export class ReActFlow {
         this.imageNode.on("default", this.reasoningNode);  // For generation tasks (return 'default')
         this.imageNode.on("complete", this.summarizeNode); // For editing tasks (return 'complete')
         this.ttsNode.on("default", this.reasoningNode);    // TTS continues to reasoning for follow-up
+        this.reflectionNode.on("approve", this.summarizeNode); // Review passed (or is off)
+        this.reflectionNode.on("revise", this.reasoningNode);  // Back to reasoning to fill the gaps
 
         // Step 4: Summarization is the end (no next node)
         // this.summarizeNode returns undefined in post() to end the flow
@@ -87,35 +122,183 @@ export class ReActFlow {
 
     private progressCallback?: ProgressCallback;
 
+    /**
+     * Set the approval gate every tool call must pass before it runs
+     */
+    setToolApprovalHandler(handler: ToolApprovalHandler) {
+        this.toolApprovalHandler = handler;
+    }
+
+    private toolApprovalHandler?: ToolApprovalHandler;
+
+    /**
+     * Enable plan-and-execute mode: draft an explicit plan before the first reasoning step
+     */
+    setPlanningEnabled(enabled: boolean) {
+        this.planningEnabled = enabled;
+    }
+
+    private planningEnabled = false;
+
+    /**
+     * Set the handler that lets the user edit a drafted plan before execution
+     */
+    setPlanEditHandler(handler: PlanEditHandler) {
+        this.planEditHandler = handler;
+    }
+
+    private planEditHandler?: PlanEditHandler;
+
+    /**
+     * Set the long-term memory store (undefined disables memory)
+     */
+    setMemory(memory?: AgentMemory) {
+        this.memory = memory;
+    }
+
+    private memory?: AgentMemory;
+
+    /**
+     * Set how many times the answer is reviewed before the final summary (0 disables review)
+     */
+    setMaxReflections(maxReflections: number) {
+        this.maxReflections = maxReflections;
+    }
+
+    private maxReflections = 0;
+
+    /**
+     * Set the agent profile for the next run (undefined runs the default agent)
+     */
+    setProfile(profile?: AgentProfile) {
+        this.profile = profile;
+    }
+
+    private profile?: AgentProfile;
+
     /**
      * Execute the ReAct workflow using PocketFlow's automatic execution
      * 
      * @param userRequest The user's request to process
      * @param maxSteps Maximum number of reasoning steps (default: 10)
-     * @returns Object containing final response and any generated images
+     * @param conversationContext Transcript of earlier turns in the conversation, if any
+     * @param budget Token, cost and time limits for the run
+     * @returns Object containing final response, any generated images, the run's token usage and its trace
      */
-    async execute(userRequest: string, maxSteps: number = 10, abortSignal?: AbortSignal): Promise<{ result: string; images?: string[] }> {
+    async execute(userRequest: string, maxSteps: number = 10, abortSignal?: AbortSignal, conversationContext?: string, budget?: AgentBudget): Promise<AgentRunResult> {
         console.log('🚀 PocketFlow ReAct Agent - Starting execution');
         console.log(`📝 User Request: ${userRequest}`);
         console.log(`🔢 Max Steps: ${maxSteps}`);
-        console.log(`🎯 Model Config: reasoning=${this.modelConfig.reasoning}, processing=${this.modelConfig.processing}, default=${this.modelConfig.default}`);
+        const modelConfig = applyProfileModels(this.modelConfig, this.profile);
+        if (this.profile) {
+            console.log(`🎭 Agent Profile: ${this.profile.name}`);
+        }
+        console.log(`🎯 Model Config: reasoning=${modelConfig.reasoning}, processing=${modelConfig.processing}, default=${modelConfig.default}`);
 
         // Initialize shared state
+        const now = Date.now();
         const sharedState: AgentSharedState = {
+            runId: `run-${now}`,
+            runCreatedAt: now,
             userRequest,
+            conversationContext,
             maxSteps,
             currentStep: 0,
             actionHistory: [],
-            modelConfig: this.modelConfig, // Use the configured model settings
+            budget,
+            modelConfig, // The configured model settings, with the profile's models applied
+            profile: this.profile,
             startTime: Date.now(),
-            progressCallback: this.progressCallback,
             abortSignal,
+            approveToolCall: this.toolApprovalHandler,
+            planningEnabled: this.planningEnabled,
+            editPlan: this.planEditHandler,
+            memory: this.memory,
+            maxReflections: this.maxReflections,
             // NEW: Configuration and filesystem support
             mcpConfig: this.loadMCPConfig(),
             pluginWorkingDir: this.getPluginWorkingDir(),
             mcpClient: this.mcpClient
         };
 
+        return this.runFlow(sharedState, abortSignal);
+    }
+
+    /**
+     * Resume a persisted run that was cancelled or interrupted by a reload
+     * Rebuilds the shared state from the run's snapshot; the flow rediscovers tools
+     * (connections are not persisted) and re-enters at the reasoning node with the
+     * earlier action history, so completed tool calls are not repeated
+     *
+     * @param runId Run to resume (default: the most recent run that did not complete)
+     * @param budget Token, cost and time limits for the resumed part of the run
+     */
+    async resume(runId?: string, abortSignal?: AbortSignal, budget?: AgentBudget): Promise<AgentRunResult> {
+        if (!this.runStore) {
+            throw new Error('Cannot resume agent runs without a plugin data directory');
+        }
+
+        const snapshot = runId ? await this.runStore.load(runId) : await this.runStore.getLatestResumable();
+        if (!snapshot) {
+            throw new Error(runId ? `Agent run ${runId} not found` : 'No unfinished agent run to resume');
+        }
+
+        console.log(`⏯️ PocketFlow ReAct Agent - Resuming run ${snapshot.id} at step ${snapshot.currentStep}/${snapshot.maxSteps}`);
+        console.log(`📝 User Request: ${snapshot.userRequest}`);
+
+        const sharedState: AgentSharedState = {
+            runId: snapshot.id,
+            runCreatedAt: snapshot.createdAt,
+            userRequest: snapshot.userRequest,
+            conversationContext: snapshot.conversationContext,
+            maxSteps: snapshot.maxSteps,
+            currentStep: snapshot.currentStep,
+            actionHistory: snapshot.actionHistory,
+            reasoningHistory: snapshot.reasoningHistory,
+            plan: snapshot.plan,
+            recalledMemories: snapshot.recalledMemories,
+            listedToolKeys: snapshot.listedToolKeys,
+            reflectionCount: snapshot.reflectionCount,
+            reflectionGaps: snapshot.reflectionGaps,
+            profile: snapshot.profile,
+            modelConfig: snapshot.modelConfig || this.modelConfig,
+            generatedImagePaths: snapshot.generatedImagePaths,
+            generatedAudioPaths: snapshot.generatedAudioPaths,
+            usage: snapshot.usage,
+            budget,
+            startTime: Date.now(),
+            abortSignal,
+            approveToolCall: this.toolApprovalHandler,
+            planningEnabled: this.planningEnabled,
+            editPlan: this.planEditHandler,
+            memory: this.memory,
+            maxReflections: this.maxReflections,
+            mcpConfig: this.loadMCPConfig(),
+            pluginWorkingDir: this.getPluginWorkingDir(),
+            mcpClient: this.mcpClient
+        };
+
+        return this.runFlow(sharedState, abortSignal);
+    }
+
+    /**
+     * Run the flow on a prepared shared state and persist its final status
+     */
+    private async runFlow(sharedState: AgentSharedState, abortSignal?: AbortSignal): Promise<AgentRunResult> {
+        const userRequest = sharedState.userRequest || '';
+        const maxSteps = sharedState.maxSteps || 10;
+
+        // Aggregate token usage of every LLM call made during this run
+        const unsubscribeUsage = this.llmProvider.addUsageListener?.(usage => {
+            sharedState.usage = addUsage(sharedState.usage, usage);
+        });
+
+        // Stamp progress events with the cumulative usage so far
+        const progressCallback = this.progressCallback;
+        if (progressCallback) {
+            sharedState.progressCallback = (event) => progressCallback({ ...event, usage: sharedState.usage });
+        }
+
         try {
             // Check for cancellation before starting
             if (abortSignal?.aborted) {
@@ -124,6 +307,7 @@ export class ReActFlow {
             
             // Execute the flow with cancellation monitoring
             await this.executeWithCancellation(sharedState, abortSignal);
+            await this.saveCheckpoint(sharedState, 'completed');
 
             const finalResult = sharedState.finalResult || 'Agent completed but no result was generated.';
             const actionCount = sharedState.actionHistory?.length || 0;
@@ -139,25 +323,96 @@ export class ReActFlow {
             if (generatedImages.length > 0) {
                 console.log(`📸 Generated images: ${generatedImages.length}`);
             }
+            if (sharedState.usage) {
+                console.log(`🪙 Token usage: ${formatUsage(sharedState.usage)}`);
+            }
 
             return {
                 result: finalResult,
-                images: generatedImages.length > 0 ? generatedImages : undefined
+                images: generatedImages.length > 0 ? generatedImages : undefined,
+                usage: sharedState.usage,
+                trace: this.buildTrace(sharedState, 'completed', finalResult)
             };
 
         } catch (error) {
             console.error('❌ PocketFlow Agent execution failed:', error);
+            await this.saveCheckpoint(sharedState, sharedState.cancelled ? 'cancelled' : 'failed');
 
             // Return whatever partial results we have
             const partialResult = sharedState.finalResult || this.generateErrorResponse(userRequest, error);
             const partialImages = sharedState.generatedImages?.map(img => img.imageBytes) || [];
             return {
                 result: partialResult,
-                images: partialImages.length > 0 ? partialImages : undefined
+                images: partialImages.length > 0 ? partialImages : undefined,
+                usage: sharedState.usage,
+                trace: this.buildTrace(sharedState, sharedState.cancelled ? 'cancelled' : 'failed', partialResult)
             };
+        } finally {
+            unsubscribeUsage?.();
         }
     }
 
+    /**
+     * Collect what the run did for the trace export
+     */
+    private buildTrace(sharedState: AgentSharedState, status: AgentRunStatus, finalResult: string): AgentRunTrace {
+        return {
+            runId: sharedState.runId,
+            userRequest: sharedState.userRequest || '',
+            status,
+            startTime: sharedState.runCreatedAt || sharedState.startTime || Date.now(),
+            endTime: Date.now(),
+            maxSteps: sharedState.maxSteps || 10,
+            reasoningHistory: sharedState.reasoningHistory || [],
+            actionHistory: sharedState.actionHistory || [],
+            plan: sharedState.plan,
+            generatedImagePaths: sharedState.generatedImagePaths,
+            generatedAudioPaths: sharedState.generatedAudioPaths,
+            usage: sharedState.usage,
+            finalResult
+        };
+    }
+
+    /**
+     * Persist the serializable part of the shared state for resuming
+     * Writes are queued so snapshots land in order; failures are logged and never fail the run
+     */
+    private saveCheckpoint(sharedState: AgentSharedState, status: AgentRunStatus): Promise<void> {
+        const runStore = this.runStore;
+        if (!runStore || !sharedState.runId) {
+            return Promise.resolve();
+        }
+
+        const snapshot: AgentRunSnapshot = {
+            id: sharedState.runId,
+            // A cancelled flow may still finish its current node in the background
+            status: sharedState.cancelled && status === 'running' ? 'cancelled' : status,
+            createdAt: sharedState.runCreatedAt || Date.now(),
+            updatedAt: Date.now(),
+            userRequest: sharedState.userRequest || '',
+            conversationContext: sharedState.conversationContext,
+            currentStep: sharedState.currentStep || 0,
+            maxSteps: sharedState.maxSteps || 10,
+            actionHistory: [...(sharedState.actionHistory || [])],
+            reasoningHistory: [...(sharedState.reasoningHistory || [])],
+            plan: sharedState.plan,
+            recalledMemories: sharedState.recalledMemories,
+            listedToolKeys: sharedState.listedToolKeys,
+            reflectionCount: sharedState.reflectionCount,
+            reflectionGaps: sharedState.reflectionGaps,
+            profile: sharedState.profile,
+            modelConfig: sharedState.modelConfig,
+            generatedImagePaths: sharedState.generatedImagePaths,
+            generatedAudioPaths: sharedState.generatedAudioPaths,
+            usage: sharedState.usage
+        };
+
+        this.checkpointQueue = this.checkpointQueue
+            .then(() => runStore.save(snapshot))
+            .catch(error => console.error(`❌ Failed to save agent run ${snapshot.id}:`, error));
+        return this.checkpointQueue;
+    }
+
     /**
      * Generate error response when agent execution fails
      */
@@ -303,9 +558,9 @@ export class ReActFlow {
             console.log('🧹 Performing graceful cleanup after cancellation...');
             
             // Clean up any pending operations
-            if (sharedState.nextAction) {
-                console.log('  - Cleaning up pending action');
-                sharedState.nextAction = undefined;
+            if (sharedState.nextActions) {
+                console.log('  - Cleaning up pending actions');
+                sharedState.nextActions = undefined;
             }
             
             // Clean up any pending LLM requests
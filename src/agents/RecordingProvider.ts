@@ -0,0 +1,85 @@
+import { LLMFixture, LLMFixtureEntry, LLMProvider, ProviderChatRequest, ProviderChatResponse } from './types';
+import { ModelCapabilities, TokenUsage } from '../core/types';
+import { addUsage, UsageListener } from '../utils/usageUtils';
+import { buildChatFixtureInput, buildFixtureKey, saveFixture } from '../utils/fixtureUtils';
+
+/**
+ * LLM Provider wrapper that records every call to a fixture file
+ * Calls go to the wrapped provider unchanged; each prompt/response pair is appended
+ * to the fixture and the file is rewritten after every call, so a crashed run still
+ * leaves a usable recording. Serve the fixture back with ReplayProvider.
+ */
+export class RecordingProvider implements LLMProvider {
+    private fixture: LLMFixture = { version: 1, recordedAt: Date.now(), entries: [] };
+    private writeQueue: Promise<void> = Promise.resolve();
+
+    constructor(
+        private inner: LLMProvider,
+        private fixturePath: string
+    ) {}
+
+    async callLLM(prompt: string, model?: string, system?: string): Promise<string> {
+        return this.record('callLLM', model, { prompt, system }, () => this.inner.callLLM(prompt, model, system));
+    }
+
+    async callLLMWithSchema(prompt: string, schema: any, model?: string, system?: string): Promise<any> {
+        return this.record('callLLMWithSchema', model, { prompt, system, schema }, () => this.inner.callLLMWithSchema(prompt, schema, model, system));
+    }
+
+    async chat(request: ProviderChatRequest): Promise<ProviderChatResponse> {
+        const inner = this.inner;
+        if (!inner.chat) {
+            throw new Error('Wrapped provider does not support message-based chat');
+        }
+
+        return this.record('chat', request.model, buildChatFixtureInput(request), () => inner.chat!(request));
+    }
+
+    addUsageListener(listener: UsageListener): () => void {
+        return this.inner.addUsageListener?.(listener) || (() => {});
+    }
+
+    getCapabilities(model?: string): ModelCapabilities | undefined {
+        return this.inner.getCapabilities?.(model);
+    }
+
+    /**
+     * Wait for pending fixture writes to finish
+     */
+    async flush(): Promise<void> {
+        await this.writeQueue;
+    }
+
+    /**
+     * Run a call against the wrapped provider and append it to the fixture
+     * Failed calls are not recorded, so replays only serve successful responses
+     */
+    private async record<T>(method: LLMFixtureEntry['method'], model: string | undefined, input: Record<string, any>, call: () => Promise<T>): Promise<T> {
+        // Usage is reported through listeners during the call (agent calls run one at a time)
+        let usage: TokenUsage | undefined;
+        const unsubscribe = this.inner.addUsageListener?.(reported => {
+            usage = addUsage(usage, reported);
+        });
+
+        try {
+            const output = await call();
+
+            this.fixture.entries.push({
+                method,
+                key: buildFixtureKey(method, model, input),
+                model,
+                input,
+                output,
+                usage
+            });
+            this.writeQueue = this.writeQueue
+                .then(() => saveFixture(this.fixturePath, this.fixture))
+                .catch(error => console.error(`❌ RecordingProvider: Failed to write ${this.fixturePath}:`, error));
+
+            console.log(`📼 RecordingProvider: Recorded ${method} call #${this.fixture.entries.length}`);
+            return output;
+        } finally {
+            unsubscribe?.();
+        }
+    }
+}
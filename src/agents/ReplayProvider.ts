@@ -0,0 +1,104 @@
+import { LLMFixture, LLMFixtureEntry, LLMProvider, ProviderChatRequest, ProviderChatResponse } from './types';
+import { ModelCapabilities } from '../core/types';
+import { UsageListener } from '../utils/usageUtils';
+import { buildChatFixtureInput, buildFixtureKey, loadFixture } from '../utils/fixtureUtils';
+
+export interface ReplayOptions {
+    strict?: boolean; // Throw when no entry matches the call's key instead of serving the next one in order
+    capabilities?: Record<string, ModelCapabilities>; // Capabilities to report per model (no registry offline)
+}
+
+/**
+ * LLM Provider that serves recorded responses from a fixture, without network access
+ *
+ * Each call is answered by the first unused entry with the same key (method, model
+ * and inputs). Prompts that changed since recording fall back to the next unused
+ * entry of the same method, in recording order, unless `strict` is set. Either way
+ * a replay of the same run returns the same responses, so ReActFlow and its nodes
+ * can be exercised in tests and demos.
+ */
+export class ReplayProvider implements LLMProvider {
+    private used: Set<number> = new Set();
+    private usageListeners: Set<UsageListener> = new Set();
+
+    constructor(
+        private fixture: LLMFixture,
+        private options: ReplayOptions = {}
+    ) {}
+
+    /**
+     * Create a replay provider from a fixture file written by RecordingProvider
+     */
+    static async fromFile(fixturePath: string, options: ReplayOptions = {}): Promise<ReplayProvider> {
+        return new ReplayProvider(await loadFixture(fixturePath), options);
+    }
+
+    async callLLM(prompt: string, model?: string, system?: string): Promise<string> {
+        return this.replay('callLLM', model, { prompt, system });
+    }
+
+    async callLLMWithSchema(prompt: string, schema: any, model?: string, system?: string): Promise<any> {
+        return this.replay('callLLMWithSchema', model, { prompt, system, schema });
+    }
+
+    async chat(request: ProviderChatRequest): Promise<ProviderChatResponse> {
+        const response: ProviderChatResponse = this.replay('chat', request.model, buildChatFixtureInput(request));
+
+        // Deliver the recorded answer as a single streamed token
+        if (request.onToken && response.content) {
+            request.onToken(response.content);
+        }
+
+        return response;
+    }
+
+    addUsageListener(listener: UsageListener): () => void {
+        this.usageListeners.add(listener);
+        return () => {
+            this.usageListeners.delete(listener);
+        };
+    }
+
+    getCapabilities(model?: string): ModelCapabilities | undefined {
+        return model ? this.options.capabilities?.[model] : undefined;
+    }
+
+    /**
+     * Number of recorded entries not served yet
+     */
+    getRemainingCount(): number {
+        return this.fixture.entries.length - this.used.size;
+    }
+
+    private replay(method: LLMFixtureEntry['method'], model: string | undefined, input: Record<string, any>): any {
+        const key = buildFixtureKey(method, model, input);
+        let index = this.fixture.entries.findIndex((entry, i) => !this.used.has(i) && entry.key === key);
+
+        if (index === -1) {
+            if (this.options.strict) {
+                throw new Error(`ReplayProvider: No recorded ${method} response for this ${model ? `"${model}" ` : ''}request`);
+            }
+
+            index = this.fixture.entries.findIndex((entry, i) => !this.used.has(i) && entry.method === method);
+            if (index === -1) {
+                throw new Error(`ReplayProvider: Fixture has no more recorded ${method} responses`);
+            }
+            console.warn(`⚠️ ReplayProvider: Request changed since recording - serving ${method} entry #${index + 1} in order`);
+        }
+
+        this.used.add(index);
+        const entry = this.fixture.entries[index];
+
+        if (entry.usage) {
+            const usage = entry.usage;
+            this.usageListeners.forEach(listener => listener(usage));
+        }
+
+        if (entry.error) {
+            throw new Error(entry.error);
+        }
+
+        // Copy so callers that mutate the result can't change later replays
+        return JSON.parse(JSON.stringify(entry.output));
+    }
+}
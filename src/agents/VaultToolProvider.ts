@@ -0,0 +1,391 @@
+import { App, TFile, getAllTags, normalizePath, parseLinktext, prepareSimpleSearch } from 'obsidian';
+import { MCPTool } from './types';
+import { ToolCallError } from '../utils/actionErrorUtils';
+
+/**
+ * Server name the agent sees for the built-in vault tools
+ */
+export const VAULT_SERVER = 'vault';
+
+/**
+ * Vault tools that change notes; they ask for approval unless a policy is set for them or the vault server
+ */
+export const VAULT_WRITE_TOOLS = ['create_note', 'append_to_note', 'prepend_to_note', 'update_frontmatter'];
+
+const DEFAULT_SEARCH_LIMIT = 10;
+const MAX_SEARCH_LIMIT = 50;
+const SNIPPET_CHARS = 160;
+
+/**
+ * In-process tool provider giving the agent access to the vault through the Obsidian API
+ * Listed by MCPClientAdapter next to the MCP servers, so the agent reasons about these
+ * tools (and approval policies apply to them) exactly like MCP tools. Notes are addressed
+ * by name, path or wikilink ("[[Note#Heading|alias]]"); results are plain text.
+ */
+export class VaultToolProvider {
+    constructor(
+        private app: App,
+        private isEnabled: () => boolean = () => true
+    ) {}
+
+    /**
+     * Tools offered to the agent (none when vault tools are disabled in settings)
+     */
+    getTools(): MCPTool[] {
+        if (!this.isEnabled()) {
+            return [];
+        }
+
+        const note = { type: 'string', description: 'Note name, vault path or wikilink, e.g. "[[Project Ideas]]" or "Projects/Ideas.md"' };
+        const tools: Omit<MCPTool, 'server'>[] = [
+            {
+                name: 'search_notes',
+                description: 'Search note names and contents in the vault; returns matching notes with a snippet',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        query: { type: 'string', description: 'Words to search for' },
+                        limit: { type: 'number', description: `Maximum number of notes to return (default ${DEFAULT_SEARCH_LIMIT}, at most ${MAX_SEARCH_LIMIT})` }
+                    },
+                    required: ['query']
+                }
+            },
+            {
+                name: 'read_note',
+                description: 'Read a note by name, path or wikilink; a "#Heading" in the link reads only that section',
+                inputSchema: { type: 'object', properties: { note }, required: ['note'] }
+            },
+            {
+                name: 'create_note',
+                description: 'Create a new note at a vault path (folders are created as needed)',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        path: { type: 'string', description: 'Vault path of the new note, e.g. "Projects/Summary.md"' },
+                        content: { type: 'string', description: 'Markdown content of the note' },
+                        overwrite: { type: 'boolean', description: 'Replace the note if it already exists (default false)' }
+                    },
+                    required: ['path', 'content']
+                }
+            },
+            {
+                name: 'append_to_note',
+                description: 'Add content to the end of an existing note',
+                inputSchema: {
+                    type: 'object',
+                    properties: { note, content: { type: 'string', description: 'Markdown content to add' } },
+                    required: ['note', 'content']
+                }
+            },
+            {
+                name: 'prepend_to_note',
+                description: 'Add content to the start of an existing note (after its frontmatter)',
+                inputSchema: {
+                    type: 'object',
+                    properties: { note, content: { type: 'string', description: 'Markdown content to add' } },
+                    required: ['note', 'content']
+                }
+            },
+            {
+                name: 'list_tags',
+                description: 'List all tags used in the vault with the number of notes using each',
+                inputSchema: { type: 'object', properties: {} }
+            },
+            {
+                name: 'get_backlinks',
+                description: 'List the notes that link to a note',
+                inputSchema: { type: 'object', properties: { note }, required: ['note'] }
+            },
+            {
+                name: 'get_frontmatter',
+                description: 'Read the frontmatter properties of a note as JSON',
+                inputSchema: { type: 'object', properties: { note }, required: ['note'] }
+            },
+            {
+                name: 'update_frontmatter',
+                description: 'Set or remove frontmatter properties of a note; other properties are kept',
+                inputSchema: {
+                    type: 'object',
+                    properties: {
+                        note,
+                        properties: { type: 'object', description: 'Properties to set (a null value removes the property)' },
+                        remove: { type: 'array', items: { type: 'string' }, description: 'Property names to remove' }
+                    },
+                    required: ['note']
+                }
+            }
+        ];
+
+        return tools.map(tool => ({ ...tool, server: VAULT_SERVER }));
+    }
+
+    /**
+     * Run a vault tool; throws with a readable message when the tool fails
+     */
+    async callTool(toolName: string, parameters: Record<string, any>, signal?: AbortSignal): Promise<string> {
+        if (!this.isEnabled()) {
+            throw new ToolCallError('permission', 'Vault tools are disabled in settings');
+        }
+
+        switch (toolName) {
+            case 'search_notes':
+                return this.searchNotes(String(parameters.query || ''), parameters.limit, signal);
+            case 'read_note':
+                return this.readNote(parameters.note);
+            case 'create_note':
+                return this.createNote(parameters.path, parameters.content, parameters.overwrite === true);
+            case 'append_to_note':
+                return this.appendToNote(parameters.note, parameters.content);
+            case 'prepend_to_note':
+                return this.prependToNote(parameters.note, parameters.content);
+            case 'list_tags':
+                return this.listTags();
+            case 'get_backlinks':
+                return this.getBacklinks(parameters.note);
+            case 'get_frontmatter':
+                return this.getFrontmatter(parameters.note);
+            case 'update_frontmatter':
+                return this.updateFrontmatter(parameters.note, parameters.properties, parameters.remove);
+            default:
+                throw new Error(`Unknown vault tool: ${toolName}`);
+        }
+    }
+
+    private async searchNotes(query: string, limit: any, signal?: AbortSignal): Promise<string> {
+        if (!query.trim()) {
+            throw new Error('Search query is empty');
+        }
+
+        const maxResults = Math.min(Math.max(1, Math.floor(Number(limit)) || DEFAULT_SEARCH_LIMIT), MAX_SEARCH_LIMIT);
+        const search = prepareSimpleSearch(query);
+        const matches: { file: TFile; score: number; snippet: string }[] = [];
+
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            if (signal?.aborted) {
+                throw new DOMException('Operation was cancelled', 'AbortError');
+            }
+
+            const nameMatch = search(file.basename);
+            const content = await this.app.vault.cachedRead(file);
+            const contentMatch = search(content);
+            if (!nameMatch && !contentMatch) {
+                continue;
+            }
+
+            // Name matches rank above content matches
+            const score = (nameMatch ? nameMatch.score + 100 : 0) + (contentMatch ? contentMatch.score : 0);
+            const snippet = contentMatch && contentMatch.matches.length > 0
+                ? this.buildSnippet(content, contentMatch.matches[0][0])
+                : this.buildSnippet(content, 0);
+            matches.push({ file, score, snippet });
+        }
+
+        if (matches.length === 0) {
+            return `No notes match "${query}"`;
+        }
+
+        matches.sort((a, b) => b.score - a.score);
+        const shown = matches.slice(0, maxResults);
+        const lines = shown.map(match => `- [[${this.linkText(match.file)}]] (${match.file.path})${match.snippet ? `\n  ${match.snippet}` : ''}`);
+        const more = matches.length > shown.length ? `\n(${matches.length - shown.length} more matches not shown)` : '';
+        return `Found ${matches.length} notes matching "${query}":\n${lines.join('\n')}${more}`;
+    }
+
+    private async readNote(note: any): Promise<string> {
+        const { file, subpath } = this.resolveNote(note);
+        const content = await this.app.vault.cachedRead(file);
+
+        if (!subpath) {
+            return content;
+        }
+
+        const section = this.extractSection(file, content, subpath);
+        if (section === undefined) {
+            throw new Error(`Heading "${subpath}" not found in ${file.path}`);
+        }
+        return section;
+    }
+
+    private async createNote(path: any, content: any, overwrite: boolean): Promise<string> {
+        if (typeof path !== 'string' || !path.trim()) {
+            throw new Error('Note path is required');
+        }
+
+        let notePath = normalizePath(path.trim());
+        if (!/\.[^/]+$/.test(notePath)) {
+            notePath += '.md';
+        }
+
+        const existing = this.app.vault.getAbstractFileByPath(notePath);
+        if (existing instanceof TFile) {
+            if (!overwrite) {
+                throw new Error(`Note already exists: ${notePath} (set overwrite to replace it, or append to it)`);
+            }
+            await this.app.vault.modify(existing, String(content ?? ''));
+            return `Replaced [[${this.linkText(existing)}]] (${notePath})`;
+        } else if (existing) {
+            throw new Error(`A folder already exists at ${notePath}`);
+        }
+
+        const folder = notePath.includes('/') ? notePath.slice(0, notePath.lastIndexOf('/')) : '';
+        if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+            await this.app.vault.createFolder(folder);
+        }
+
+        const file = await this.app.vault.create(notePath, String(content ?? ''));
+        return `Created [[${this.linkText(file)}]] (${file.path})`;
+    }
+
+    private async appendToNote(note: any, content: any): Promise<string> {
+        const { file } = this.resolveNote(note);
+        const addition = String(content ?? '');
+
+        await this.app.vault.process(file, data => {
+            if (!data) {
+                return addition;
+            }
+            return `${data}${data.endsWith('\n') ? '' : '\n'}${addition}`;
+        });
+        return `Appended ${addition.length} chars to [[${this.linkText(file)}]]`;
+    }
+
+    private async prependToNote(note: any, content: any): Promise<string> {
+        const { file } = this.resolveNote(note);
+        const addition = String(content ?? '');
+
+        await this.app.vault.process(file, data => {
+            // Keep frontmatter at the top of the note
+            const frontmatter = data.match(/^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/);
+            const head = frontmatter ? frontmatter[0] : '';
+            const body = data.slice(head.length);
+            const separator = addition.endsWith('\n') || !body ? '' : '\n';
+            return `${head}${addition}${separator}${body}`;
+        });
+        return `Prepended ${addition.length} chars to [[${this.linkText(file)}]]`;
+    }
+
+    private listTags(): string {
+        const counts = new Map<string, number>();
+
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            const cache = this.app.metadataCache.getFileCache(file);
+            const tags = cache ? getAllTags(cache) : null;
+            // Count each note once per tag
+            new Set(tags || []).forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1));
+        }
+
+        if (counts.size === 0) {
+            return 'No tags found in the vault';
+        }
+
+        const sorted = Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+        return `${sorted.length} tags:\n${sorted.map(([tag, count]) => `- ${tag} (${count} ${count === 1 ? 'note' : 'notes'})`).join('\n')}`;
+    }
+
+    private getBacklinks(note: any): string {
+        const { file } = this.resolveNote(note);
+        const backlinks: string[] = [];
+
+        for (const [sourcePath, links] of Object.entries(this.app.metadataCache.resolvedLinks)) {
+            const count = links[file.path];
+            if (count && sourcePath !== file.path) {
+                backlinks.push(`- ${sourcePath} (${count} ${count === 1 ? 'link' : 'links'})`);
+            }
+        }
+
+        if (backlinks.length === 0) {
+            return `No notes link to [[${this.linkText(file)}]]`;
+        }
+        return `${backlinks.length} notes link to [[${this.linkText(file)}]]:\n${backlinks.sort().join('\n')}`;
+    }
+
+    private getFrontmatter(note: any): string {
+        const { file } = this.resolveNote(note);
+        const frontmatter = { ...(this.app.metadataCache.getFileCache(file)?.frontmatter || {}) };
+        // Older Obsidian versions include the frontmatter's position in the cache
+        delete (frontmatter as any).position;
+        return JSON.stringify(frontmatter, null, 2);
+    }
+
+    private async updateFrontmatter(note: any, properties: any, remove: any): Promise<string> {
+        const { file } = this.resolveNote(note);
+        const updates: Record<string, any> = properties && typeof properties === 'object' && !Array.isArray(properties) ? properties : {};
+        const removals: string[] = Array.isArray(remove) ? remove.map(String) : [];
+
+        if (Object.keys(updates).length === 0 && removals.length === 0) {
+            throw new Error('No properties to set or remove');
+        }
+
+        const changed: string[] = [];
+        await this.app.fileManager.processFrontMatter(file, frontmatter => {
+            for (const [key, value] of Object.entries(updates)) {
+                if (value === null) {
+                    delete frontmatter[key];
+                    changed.push(`removed ${key}`);
+                } else {
+                    frontmatter[key] = value;
+                    changed.push(`set ${key}`);
+                }
+            }
+            for (const key of removals) {
+                if (key in frontmatter) {
+                    delete frontmatter[key];
+                    changed.push(`removed ${key}`);
+                }
+            }
+        });
+
+        return `Updated frontmatter of [[${this.linkText(file)}]]: ${changed.join(', ') || 'no changes'}`;
+    }
+
+    /**
+     * Resolve a note reference (name, path or wikilink) to a file and optional heading
+     */
+    private resolveNote(note: any): { file: TFile; subpath: string } {
+        if (typeof note !== 'string' || !note.trim()) {
+            throw new Error('Note name, path or wikilink is required');
+        }
+
+        // "[[Target#Heading|alias]]" -> "Target#Heading"
+        const linktext = note.trim().replace(/^!?\[\[/, '').replace(/\]\]$/, '').split('|')[0].trim();
+        const { path, subpath } = parseLinktext(linktext);
+
+        let file = this.app.metadataCache.getFirstLinkpathDest(path, '');
+        if (!file) {
+            const byPath = this.app.vault.getAbstractFileByPath(normalizePath(path))
+                || this.app.vault.getAbstractFileByPath(normalizePath(`${path}.md`));
+            file = byPath instanceof TFile ? byPath : null;
+        }
+
+        if (!file) {
+            throw new Error(`Note not found: ${note}`);
+        }
+
+        return { file, subpath: subpath.replace(/^#/, '').trim() };
+    }
+
+    /**
+     * Return the section under a heading, up to the next heading of the same or higher level
+     */
+    private extractSection(file: TFile, content: string, heading: string): string | undefined {
+        const headings = this.app.metadataCache.getFileCache(file)?.headings || [];
+        const index = headings.findIndex(h => h.heading.toLowerCase() === heading.toLowerCase());
+        if (index === -1) {
+            return undefined;
+        }
+
+        const start = headings[index].position.start.offset;
+        const next = headings.slice(index + 1).find(h => h.level <= headings[index].level);
+        return content.slice(start, next ? next.position.start.offset : content.length).trim();
+    }
+
+    private buildSnippet(content: string, offset: number): string {
+        const start = Math.max(0, offset - SNIPPET_CHARS / 2);
+        const text = content.slice(start, start + SNIPPET_CHARS).replace(/\s+/g, ' ').trim();
+        return text ? `${start > 0 ? '…' : ''}${text}${start + SNIPPET_CHARS < content.length ? '…' : ''}` : '';
+    }
+
+    private linkText(file: TFile): string {
+        return this.app.metadataCache.fileToLinktext(file, '', true);
+    }
+}
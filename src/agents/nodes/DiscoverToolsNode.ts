@@ -1,5 +1,6 @@
 import { Node } from "pocketflow";
 import { AgentSharedState, MCPClient, MCPTool } from '../types';
+import { filterProfileTools } from '../../utils/profileUtils';
 
 /**
  * Node for discovering available MCP tools
@@ -51,9 +52,13 @@ export class DiscoverToolsNode extends Node<AgentSharedState> {
         _: void,
         toolData: { availableTools: MCPTool[]; toolsByServer: any; toolServerMap: Record<string, string> }
     ): Promise<string | undefined> {
-        // Update shared state with discovered tools
+        // Update shared state with discovered tools, keeping only those the agent profile allows
+        const availableTools = filterProfileTools(toolData.availableTools, shared.profile);
+        if (availableTools.length < toolData.availableTools.length) {
+            console.log(`🎭 Profile ${shared.profile?.name} allows ${availableTools.length} of ${toolData.availableTools.length} tools`);
+        }
         Object.assign(shared, {
-            availableTools: toolData.availableTools,
+            availableTools,
             toolsByServer: toolData.toolsByServer,
             toolServerMap: toolData.toolServerMap
         });
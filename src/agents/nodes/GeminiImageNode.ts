@@ -343,7 +343,9 @@ export class GeminiImageNode extends Node<AgentSharedState> {
             result: this.formatImageResults(images, relativePaths),
             justification: 'Generated visual content using Gemini official SDK',
             success: images.length > 0,
-            historyId: `gemini-img-sdk-${Date.now()}`
+            error: images.length > 0 ? undefined : { kind: 'tool_error' as const, message: 'No images were generated (the prompt may have been safety filtered)', retryable: false },
+            historyId: `gemini-img-sdk-${Date.now()}`,
+            timestamp: Date.now()
         };
 
         if (!shared.actionHistory) {
@@ -766,6 +768,7 @@ Respond with ONLY the enhanced prompt, no explanations or quotes.`;
         try {
             const prompt = this.buildRequestTypeDetectionPrompt(shared);
             
+            // Validated against getRequestTypeSchema (enum, confidence range, required fields)
             const response = await this.llmProvider.callLLMWithSchema(
                 prompt,
                 this.getRequestTypeSchema(),
@@ -240,7 +240,9 @@ export class GeminiTTSNode extends Node<AgentSharedState> {
             result: this.formatAudioResults(audios, relativePaths),
             justification: 'Generated speech audio using Gemini TTS API',
             success: audios.length > 0,
-            historyId: `gemini-tts-sdk-${Date.now()}`
+            error: audios.length > 0 ? undefined : { kind: 'tool_error' as const, message: 'No audio was generated', retryable: false },
+            historyId: `gemini-tts-sdk-${Date.now()}`,
+            timestamp: Date.now()
         };
 
         if (!shared.actionHistory) {
@@ -1,5 +1,36 @@
 import { Node } from "pocketflow";
-import { AgentSharedState, LLMProvider, LLMProcessingRequest, ActionResult } from '../types';
+import { AgentSharedState, LLMProvider, LLMProcessingRequest, ActionError, ActionResult, ProgressCallback } from '../types';
+import { classifyToolError } from '../../utils/actionErrorUtils';
+import { splitIntoChunks } from '../../utils/chunkUtils';
+import { estimateTokens } from '../../utils/usageUtils';
+
+/**
+ * Tokens kept free for the model's answer when it declares no max output
+ */
+const DEFAULT_OUTPUT_RESERVE = 4096;
+
+/**
+ * Maximum reduce passes before the partial results are combined as they are
+ */
+const MAX_REDUCE_DEPTH = 3;
+
+const SYSTEM_PROMPT = 'You are a helpful assistant that processes content according to the given instructions.';
+
+interface LLMProcessingPrepData {
+    prompt: string;
+    content: string;
+    request: LLMProcessingRequest;
+    modelConfig: any;
+    step: number;
+    progressCallback?: ProgressCallback;
+    abortSignal?: AbortSignal;
+}
+
+interface LLMProcessingResult {
+    output: string;
+    chunkCount: number;
+    error?: ActionError; // Set when processing failed after all retries
+}
 
 /**
  * Dedicated LLM Processing Node following PocketFlow patterns
@@ -8,6 +39,12 @@ import { AgentSharedState, LLMProvider, LLMProcessingRequest, ActionResult } fro
  * - prep(): Retrieve content from action history using historyId reference
  * - exec(): Execute LLM processing with crafted prompt and selected content
  * - post(): Add result to unified action history with stepType: 'llm_processing'
+ *
+ * Content that does not fit the processing model's context window is split into
+ * token-bounded chunks: translate-style tasks process each chunk and join the results
+ * in order, while summarize/extract-style tasks map over the chunks and reduce the
+ * partial results into one answer. Each chunk is reported via progressCallback.
+ * Models without a known context window get the content in one call.
  * 
  * This maintains clear separation of concerns:
  * - ReasoningNode: Decides what to do and crafts prompts
@@ -23,7 +60,7 @@ export class LLMProcessingNode extends Node<AgentSharedState> {
         super(maxRetries, waitTime);
     }
 
-    async prep(shared: AgentSharedState): Promise<{ prompt: string; content: string; request: LLMProcessingRequest; modelConfig: any }> {
+    async prep(shared: AgentSharedState): Promise<LLMProcessingPrepData> {
         const request = shared.nextLLMRequest;
         
         if (!request) {
@@ -42,36 +79,60 @@ export class LLMProcessingNode extends Node<AgentSharedState> {
             prompt: request.prompt,
             content: content,
             request: request,
-            modelConfig: shared.modelConfig
+            modelConfig: shared.modelConfig,
+            step: shared.currentStep || 0,
+            progressCallback: shared.progressCallback,
+            abortSignal: shared.abortSignal
         };
     }
 
-    async exec(prepData: { prompt: string; content: string; request: LLMProcessingRequest; modelConfig: any }): Promise<string> {
-        const { prompt, content, modelConfig } = prepData;
-        
-        console.log(`🔧 LLMProcessingNode: Executing ${prepData.request.task}`);
-        
-        // Combine prompt and content following PocketFlow patterns
-        const fullPrompt = `${prompt}\n\nContent to process:\n${content}`;
-        
-        // Execute LLM processing - no JSON schema needed for content tasks
-        const result = await this.llmProvider.callLLM(
-            fullPrompt,
-            modelConfig?.processing, // Use configured processing model
-            'You are a helpful assistant that processes content according to the given instructions.'
-        );
-        
-        console.log(`✅ LLM Processing completed: ${prepData.request.task}`);
-        console.log(`📊 Output length: ${result.length} characters`);
+    async exec(prepData: LLMProcessingPrepData): Promise<LLMProcessingResult> {
+        const { prompt, content, request } = prepData;
         
-        return result.trim();
+        console.log(`🔧 LLMProcessingNode: Executing ${request.task}`);
+
+        const contentBudget = this.getContentTokenBudget(prepData);
+        const chunks = contentBudget ? splitIntoChunks(content, contentBudget) : [content];
+
+        if (!contentBudget || chunks.length === 1) {
+            // Combine prompt and content following PocketFlow patterns
+            const result = await this.processContent(prompt, content, prepData);
+            console.log(`✅ LLM Processing completed: ${request.task}`);
+            console.log(`📊 Output length: ${result.length} characters`);
+            return { output: result.trim(), chunkCount: 1 };
+        }
+
+        console.log(`🧩 Content (~${estimateTokens(content)} tokens) exceeds budget of ${contentBudget} tokens - processing ${chunks.length} chunks`);
+
+        // Map: run the task on every chunk, in order
+        const partials: string[] = [];
+        for (let i = 0; i < chunks.length; i++) {
+            this.emitChunkProgress(prepData, 'map', i + 1, chunks.length);
+            const chunkPrompt = `${prompt}\n\nThis is part ${i + 1} of ${chunks.length} of the content. Process only this part.`;
+            partials.push((await this.processContent(chunkPrompt, chunks[i], prepData)).trim());
+        }
+
+        const output = this.isConcatTask(request.task)
+            ? partials.join('\n\n')
+            : await this.reducePartials(partials, contentBudget, prepData, 1);
+
+        console.log(`✅ LLM Processing completed: ${request.task} (${chunks.length} chunks)`);
+        console.log(`📊 Output length: ${output.length} characters`);
+
+        return { output: output.trim(), chunkCount: chunks.length };
     }
 
     async post(
         shared: AgentSharedState,
-        prepData: { prompt: string; content: string; request: LLMProcessingRequest; modelConfig: any },
-        result: string
-    ): Promise<string> {
+        prepData: LLMProcessingPrepData,
+        result: LLMProcessingResult | null
+    ): Promise<string | undefined> {
+        if (!result) {
+            // Handle graceful cancellation
+            console.log('🛑 LLM processing post: Operation was cancelled, ending flow');
+            shared.nextLLMRequest = undefined;
+            return undefined; // Return undefined to end the flow gracefully
+        }
         const { request } = prepData;
         
         // Generate unique history ID for this LLM processing step
@@ -90,23 +151,110 @@ export class LLMProcessingNode extends Node<AgentSharedState> {
             parameters: { 
                 inputHistoryId: request.inputHistoryId,
                 promptLength: request.prompt.length,
-                contentLength: prepData.content.length
+                contentLength: prepData.content.length,
+                chunkCount: result.chunkCount
             },
-            result: result,
+            result: result.output,
             justification: request.prompt,
-            success: true,
-            historyId: historyId
+            success: !result.error,
+            historyId: historyId,
+            timestamp: Date.now(),
+            error: result.error
         });
         
         // Clear the LLM request
         shared.nextLLMRequest = undefined;
         // Note: currentStep increment handled by ReasoningNode
         
-        console.log(`📋 LLM Processing result added to action history with ID: ${historyId}`);
+        console.log(`📋 LLM Processing result added to action history with ID: ${historyId} (${result.error ? `FAILED: ${result.error.kind}` : 'SUCCESS'})`);
         
         return "continue"; // Return to reasoning node for next decision
     }
 
+    /**
+     * Run the processing model on one piece of content
+     */
+    private async processContent(prompt: string, content: string, prepData: LLMProcessingPrepData): Promise<string> {
+        if (prepData.abortSignal?.aborted) {
+            throw new DOMException('LLM processing cancelled', 'AbortError');
+        }
+
+        // Execute LLM processing - no JSON schema needed for content tasks
+        return this.llmProvider.callLLM(
+            `${prompt}\n\nContent to process:\n${content}`,
+            prepData.modelConfig?.processing, // Use configured processing model
+            SYSTEM_PROMPT
+        );
+    }
+
+    /**
+     * Combine partial results into one answer, reducing in groups when they
+     * are still too large for a single call
+     */
+    private async reducePartials(partials: string[], contentBudget: number, prepData: LLMProcessingPrepData, depth: number): Promise<string> {
+        const separator = '\n\n---\n\n';
+        const groups = splitIntoChunks(partials.join(separator), contentBudget);
+
+        if (groups.length > 1 && depth < MAX_REDUCE_DEPTH) {
+            const reduced: string[] = [];
+            for (let i = 0; i < groups.length; i++) {
+                this.emitChunkProgress(prepData, 'reduce', i + 1, groups.length);
+                reduced.push((await this.processContent(this.buildReducePrompt(prepData), groups[i], prepData)).trim());
+            }
+            return this.reducePartials(reduced, contentBudget, prepData, depth + 1);
+        }
+
+        this.emitChunkProgress(prepData, 'reduce', 1, 1);
+        return this.processContent(this.buildReducePrompt(prepData), partials.join(separator), prepData);
+    }
+
+    private buildReducePrompt(prepData: LLMProcessingPrepData): string {
+        const instruction = /extract/i.test(prepData.request.task)
+            ? 'Merge these extracted results into one list, removing duplicates.'
+            : 'Combine these partial results into one coherent answer, removing repetition.';
+
+        return `The content was too long to process at once, so it was split into parts and each part was processed with this instruction:\n\n${prepData.prompt}\n\n${instruction} Answer as if the whole content had been processed at once.`;
+    }
+
+    /**
+     * Tasks whose per-chunk output is already part of the final answer (e.g. translation)
+     */
+    private isConcatTask(task: string): boolean {
+        return /translat|rewrite|transform|convert|format/i.test(task);
+    }
+
+    /**
+     * Tokens available for content in one call: the processing model's context window
+     * minus room for the answer, the prompt and a margin for the rough token estimate
+     * Undefined when the model's context window is unknown
+     */
+    private getContentTokenBudget(prepData: LLMProcessingPrepData): number | undefined {
+        const capabilities = this.llmProvider.getCapabilities?.(prepData.modelConfig?.processing);
+        const contextWindow = capabilities?.contextWindow;
+        if (!contextWindow) {
+            return undefined;
+        }
+        const outputReserve = capabilities?.maxOutputTokens || DEFAULT_OUTPUT_RESERVE;
+        const promptTokens = estimateTokens(prepData.prompt) + estimateTokens(SYSTEM_PROMPT) + 200;
+
+        return Math.max(1000, Math.floor((contextWindow - outputReserve) * 0.8) - promptTokens);
+    }
+
+    /**
+     * Emit chunk progress event to callback if available
+     */
+    private emitChunkProgress(prepData: LLMProcessingPrepData, phase: 'map' | 'reduce', chunk: number, totalChunks: number) {
+        console.log(`🧩 LLM Processing ${phase}: ${chunk}/${totalChunks}`);
+        if (prepData.progressCallback) {
+            prepData.progressCallback({
+                type: 'chunk_progress',
+                step: prepData.step,
+                data: { task: prepData.request.task, phase, chunk, totalChunks },
+                timestamp: Date.now()
+            });
+        }
+    }
+
     /**
      * Retrieve content from action history using historyId reference(s)
      * This enables precise content selection for LLM processing
@@ -148,12 +296,12 @@ export class LLMProcessingNode extends Node<AgentSharedState> {
             // Enhanced fallback matching for common prefix mismatches
             let fallbackMatch = null;
             
-            // Try to match by step number and timestamp, ignoring prefix
-            const stepMatch = historyId.match(/^(action|llm)-(\d+)-(\d+)$/);
+            // Try to match by step number, timestamp and action index, ignoring prefix
+            const stepMatch = historyId.match(/^(action|llm)-(\d+)-(\d+(?:-\d+)?)$/);
             if (stepMatch) {
                 const [, , stepNum, timestamp] = stepMatch;
                 fallbackMatch = history.find(h => {
-                    const historyMatch = h.historyId.match(/^(action|llm)-(\d+)-(\d+)$/);
+                    const historyMatch = h.historyId.match(/^(action|llm)-(\d+)-(\d+(?:-\d+)?)$/);
                     return historyMatch && historyMatch[2] === stepNum && historyMatch[3] === timestamp;
                 });
             }
@@ -176,18 +324,28 @@ export class LLMProcessingNode extends Node<AgentSharedState> {
 
     /**
      * Fallback method when all retries fail
-     * Following PocketFlow execFallback pattern
+     * Following PocketFlow execFallback pattern with cancellation handling
      */
     async execFallback(
-        prepData: { prompt: string; content: string; request: LLMProcessingRequest; modelConfig: any },
+        prepData: LLMProcessingPrepData,
         error: Error
-    ): Promise<string> {
+    ): Promise<LLMProcessingResult | null> {
+        // Handle cancellation gracefully in fallback
+        if (error instanceof DOMException && error.name === 'AbortError') {
+            console.log('🛑 LLM processing fallback: Operation was cancelled, returning null');
+            return null; // Return null for cancellation instead of recording a failed result
+        }
+        
         console.error('❌ LLM Processing failed:', error);
         console.log('🔄 Using LLM processing fallback...');
         
         const { request } = prepData;
         
-        // Return a fallback response indicating failure
-        return `[LLM Processing Failed: ${error.message}]\n\nOriginal task: ${request.task}\nInput history ID: ${request.inputHistoryId}`;
+        // Return a typed failure; retries are already used up
+        return {
+            output: `Error: ${request.task} failed: ${error.message}`,
+            chunkCount: 0,
+            error: { ...classifyToolError(error), retryable: false }
+        };
     }
 }
\ No newline at end of file
@@ -0,0 +1,167 @@
+import { Node } from "pocketflow";
+import { AgentSharedState, LLMProvider, PlanItem, AgentProgressEvent } from '../types';
+import { createPlan, MAX_PLAN_ITEMS } from '../../utils/planUtils';
+import { selectPromptTools } from '../../utils/toolRankingUtils';
+import { formatProfilePreamble, isDecisionEnabled } from '../../utils/profileUtils';
+
+interface PlanningPrepData {
+    prompt: string;
+    model?: string;
+}
+
+/**
+ * Node for drafting an explicit, ordered plan before the first reasoning step
+ * Following PocketFlow TypeScript SDK patterns with built-in retry logic
+ *
+ * Only runs in plan-and-execute mode and when the run has no plan yet (a resumed
+ * run keeps its plan). The user may edit the plan before execution starts; the
+ * reasoning node then ticks items off and may re-plan when a step fails.
+ */
+export class PlanningNode extends Node<AgentSharedState> {
+    constructor(
+        private llmProvider: LLMProvider,
+        maxRetries: number = 2,
+        waitTime: number = 1
+    ) {
+        super(maxRetries, waitTime);
+    }
+
+    async prep(shared: AgentSharedState): Promise<PlanningPrepData | null> {
+        // Check for cancellation before processing - graceful early exit
+        if (shared.cancelled) {
+            console.log('🛑 Planning node prep: Operation was cancelled, skipping planning');
+            return null;
+        }
+
+        if (!shared.planningEnabled || (shared.plan && shared.plan.length > 0)) {
+            return null; // Plain ReAct mode, or the plan survived a resume
+        }
+
+        console.log('📋 Drafting plan...');
+        return {
+            prompt: this.buildPlanningPrompt(shared),
+            model: shared.modelConfig?.reasoning
+        };
+    }
+
+    async exec(prepData: PlanningPrepData | null): Promise<PlanItem[] | null> {
+        if (!prepData) {
+            return null;
+        }
+
+        const response = await this.llmProvider.callLLMWithSchema(prepData.prompt, this.getPlanSchema(), prepData.model);
+        const plan = createPlan(response.steps || []);
+        if (plan.length === 0) {
+            throw new Error('Plan has no steps');
+        }
+
+        console.log(`📋 Plan drafted with ${plan.length} steps`);
+        return plan;
+    }
+
+    async post(
+        shared: AgentSharedState,
+        prepData: PlanningPrepData | null,
+        plan: PlanItem[] | null
+    ): Promise<string | undefined> {
+        if (!prepData || !plan) {
+            return "default"; // Continue without a plan
+        }
+
+        let approvedPlan: PlanItem[] | null = plan;
+        if (shared.editPlan) {
+            console.log('⏸️ Waiting for the user to review the plan');
+            approvedPlan = await shared.editPlan(plan, shared.abortSignal);
+        }
+
+        if (approvedPlan === null) {
+            console.log('🛑 Plan rejected by user - ending run');
+            shared.goalStatus = 'Plan cancelled by user';
+            shared.finalResult = 'The plan was cancelled before execution. No actions were taken.';
+            return undefined; // End the flow
+        }
+
+        // Renumber so the reasoning node can refer to items by position
+        shared.plan = createPlan(approvedPlan.map(item => item.description));
+        this.emitProgress(shared, 'plan_updated', { plan: shared.plan }, 0);
+
+        return "default";
+    }
+
+    /**
+     * Fallback method when planning fails
+     * Following PocketFlow execFallback pattern - the agent still runs, just without a plan
+     */
+    async execFallback(_: PlanningPrepData | null, error: Error): Promise<PlanItem[] | null> {
+        console.warn(`⚠️ Planning failed, continuing without a plan: ${error.message}`);
+        return null;
+    }
+
+    private buildPlanningPrompt(state: AgentSharedState): string {
+        const tools = state.availableTools || [];
+
+        let prompt = `You are planning how an agent will accomplish this request: "${state.userRequest}"\n\n`;
+        prompt += formatProfilePreamble(state.profile);
+
+        if (state.conversationContext) {
+            prompt += `## Conversation So Far:\n${state.conversationContext}\n\n`;
+        }
+
+        if (tools.length > 0) {
+            // Large catalogs: only the tools most relevant to the request
+            const shownTools = selectPromptTools(tools, state.toolIndex, state.userRequest || '');
+            prompt += shownTools.length < tools.length
+                ? `## Available Tools (${shownTools.length} most relevant of ${tools.length}):\n`
+                : `## Available Tools:\n`;
+            shownTools.forEach(tool => {
+                prompt += `- ${tool.name} (${tool.server}): ${tool.description}\n`;
+            });
+            prompt += `\n`;
+        }
+
+        prompt += `## Agent Capabilities:\n`;
+        const capabilities = [
+            'process content with an LLM (summarize, translate, analyze, rewrite)',
+            ...(isDecisionEnabled(state.profile, 'process_image') ? ['generate or edit images'] : []),
+            ...(isDecisionEnabled(state.profile, 'generate_speech') ? ['generate speech'] : [])
+        ];
+        const lastCapability = capabilities.pop();
+        prompt += `Besides the tools, the agent can ${capabilities.length > 0 ? `${capabilities.join(', ')} and ` : ''}${lastCapability}.\n\n`;
+
+        prompt += `## Your Task:\n`;
+        prompt += `Break the request into an ordered plan of at most ${MAX_PLAN_ITEMS} concrete steps (fewer is better; the agent has ${state.maxSteps || 10} reasoning steps in total).\n`;
+        prompt += `Each step should be one short imperative sentence describing a checkable outcome, e.g. "Fetch the article at the given URL".\n`;
+        prompt += `Respond with JSON containing "steps": an array of step descriptions in execution order.\n`;
+
+        return prompt;
+    }
+
+    private getPlanSchema(): any {
+        return {
+            "type": "object",
+            "properties": {
+                "steps": {
+                    "type": "array",
+                    "items": {"type": "string", "minLength": 1},
+                    "minItems": 1,
+                    "maxItems": MAX_PLAN_ITEMS
+                }
+            },
+            "required": ["steps"]
+        };
+    }
+
+    /**
+     * Emit progress event to callback if available
+     */
+    private emitProgress(state: AgentSharedState, type: AgentProgressEvent['type'], data: any, step: number) {
+        if (state.progressCallback) {
+            state.progressCallback({
+                type,
+                step,
+                data,
+                timestamp: Date.now()
+            });
+        }
+    }
+}
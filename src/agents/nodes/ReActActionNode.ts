@@ -1,9 +1,66 @@
 import { Node } from "pocketflow";
-import { AgentSharedState, MCPClient, ActionResult, AgentProgressEvent } from '../types';
+import { AgentSharedState, MCPClient, ActionResult, ActionDecision, AgentProgressEvent, ToolApprovalHandler, AgentMemory, MCPTool, ActionError, ToolRanker, AgentProfile } from '../types';
+import { mapWithConcurrency } from '../../utils/concurrencyUtils';
+import { INTERNAL_SERVER, READ_RESULT_TOOL, readResultSlice } from '../../utils/historyUtils';
+import { FORGET_TOOL, formatMemories, RECALL_TOOL, REMEMBER_TOOL } from '../../utils/memoryUtils';
+import { isToolAllowedByProfile } from '../../utils/profileUtils';
+import { DEFAULT_LISTED_TOOLS, formatToolList, getToolKey, LIST_TOOLS_TOOL, MAX_LISTED_TOOLS, ToolIndex } from '../../utils/toolRankingUtils';
+import { coerceToJsonSchema } from '../../utils/jsonUtils';
+import { classifyToolError, ToolCallError } from '../../utils/actionErrorUtils';
+
+/**
+ * Maximum tool calls running at the same time within one step
+ */
+const MAX_CONCURRENT_ACTIONS = 4;
+
+/**
+ * Result prefix for tool calls the approval gate refused
+ */
+const REJECTED_PREFIX = 'Rejected:';
+
+/**
+ * Outcome of one call: the result text (null when cancelled) and, for failures, why it failed
+ */
+interface CallOutcome {
+    output: string | null;
+    error?: ActionError;
+    listedToolKeys?: string[]; // Tools a list_tools call returned
+}
+
+interface ActionPrepData {
+    actions: ActionDecision[];
+    currentStep: number;
+    tools: MCPTool[]; // Discovered tools, for checking parameters against their inputSchema
+    toolIndex?: ToolRanker; // Relevance index over the tools, for list_tools searches
+    history: ActionResult[]; // Stored results for read_result calls
+    memory?: AgentMemory; // Long-term memory for remember / recall / forget calls
+    profile?: AgentProfile; // Agent profile whose tool allow-list every call must pass
+    signal?: AbortSignal;
+    approveToolCall?: ToolApprovalHandler;
+}
+
+interface ActionExecResult extends CallOutcome {
+    durationMs: number; // Time spent on the call, including retries
+    parameters: Record<string, any>; // Parameters as sent, after type coercion
+    validationErrors?: string[]; // Schema violations that kept the call from being sent
+}
 
 /**
  * Node for executing ReAct actions (tool calls)
  * Following PocketFlow TypeScript SDK patterns with built-in retry logic
+ *
+ * A step may carry several independent tool calls; they run concurrently (at most
+ * MAX_CONCURRENT_ACTIONS at once), each with its own retries, and each gets its own
+ * ActionResult and historyId so one failure doesn't discard the other results.
+ * Parameters are checked against the tool's inputSchema first (obvious type mismatches
+ * like "5" for a number are coerced); invalid calls are not sent and their schema
+ * violations are recorded so the model can fix the call. Valid calls pass the approval
+ * gate (allow / ask / deny policies), one at a time; rejected calls are recorded as
+ * failed results so the model can re-plan.
+ * Every failure is typed (see ActionErrorKind): only retryable kinds (transport errors,
+ * timeouts) are retried, and the kind is shown to the reasoning model.
+ * Built-in tools on the internal server (read_result and the memory tools) run
+ * locally, without MCP or approval.
  */
 export class ReActActionNode extends Node<AgentSharedState> {
     constructor(
@@ -14,44 +71,397 @@ export class ReActActionNode extends Node<AgentSharedState> {
         super(maxRetries, waitTime);
     }
 
-    async prep(shared: AgentSharedState): Promise<{ action: any; currentStep: number; signal?: AbortSignal } | null> {
+    async prep(shared: AgentSharedState): Promise<ActionPrepData | null> {
         // Check for cancellation before processing - graceful early exit
         if (shared.cancelled) {
             console.log('🛑 Action node prep: Operation was cancelled, skipping action execution');
             return null; // Return null to skip execution gracefully
         }
         
-        const action = shared.nextAction;
+        const actions = shared.nextActions || [];
         const currentStep = shared.currentStep || 1;
         
-        if (!action) {
+        if (actions.length === 0) {
             console.log('⏭️ No action to execute, continuing...');
             return null;
         }
         
-        console.log(`🛠️ Executing Action - Step ${currentStep}`);
-        console.log(`   Tool: ${action.tool} (${action.server})`);
-        console.log(`   Parameters:`, JSON.stringify(action.parameters, null, 2));
-        console.log(`   Justification: ${action.justification}`);
+        console.log(`🛠️ Executing ${actions.length} Action(s) - Step ${currentStep}`);
         
-        // Emit action start progress
-        this.emitProgress(shared, 'action_start', {
-            tool: action.tool,
-            server: action.server,
-            justification: action.justification,
-            parameters: Object.keys(action.parameters)
-        }, currentStep);
+        actions.forEach(action => {
+            console.log(`   Tool: ${action.tool} (${action.server})`);
+            console.log(`   Parameters:`, JSON.stringify(action.parameters, null, 2));
+            console.log(`   Justification: ${action.justification}`);
+            
+            // Emit action start progress
+            this.emitProgress(shared, 'action_start', {
+                tool: action.tool,
+                server: action.server,
+                justification: action.justification,
+                parameters: Object.keys(action.parameters || {})
+            }, currentStep);
+        });
         
-        return { action, currentStep, signal: shared.abortSignal };
+        return { actions, currentStep, tools: shared.availableTools || [], toolIndex: shared.toolIndex, history: shared.actionHistory || [], memory: shared.memory, profile: shared.profile, signal: shared.abortSignal, approveToolCall: shared.approveToolCall };
     }
 
-    async exec(prepData: { action: any; currentStep: number; signal?: AbortSignal } | null): Promise<string | null> {
+    async exec(prepData: ActionPrepData | null): Promise<ActionExecResult[] | null> {
         if (!prepData) {
             return null; // No action to execute
         }
         
-        const { action, signal } = prepData;
+        const { signal } = prepData;
+        
+        // Check parameters before asking for approval, so only well-formed calls are shown
+        const validations = prepData.actions.map(action => this.validateParameters(action, prepData.tools));
+        const actions = prepData.actions.map((action, index) => ({ ...action, parameters: validations[index].parameters }));
+        
+        // Ask for approvals one at a time so the user sees a single prompt at once
+        const rejections: Array<CallOutcome | null> = [];
+        for (const [index, action] of actions.entries()) {
+            const invalid = validations[index].errors.length > 0;
+            rejections.push(invalid || !this.needsApproval(action) ? null : await this.checkApproval(action, prepData));
+        }
+        
+        return mapWithConcurrency(actions, MAX_CONCURRENT_ACTIONS, async (action, index) => {
+            const startTime = Date.now();
+            const { errors } = validations[index];
+            const rejection = rejections[index];
+            const outcome: CallOutcome = errors.length > 0
+                ? this.validationFailure(action, errors, prepData.tools)
+                : rejection !== null
+                    ? rejection
+                    : this.isInternalTool(action)
+                        ? await this.runInternalTool(action, prepData)
+                        : await this.executeWithRetry(action, signal);
+            return {
+                ...outcome,
+                durationMs: Date.now() - startTime,
+                parameters: action.parameters,
+                validationErrors: errors.length > 0 ? errors : undefined
+            };
+        });
+    }
+
+    async post(
+        shared: AgentSharedState,
+        prepData: ActionPrepData | null,
+        execResults: ActionExecResult[] | null
+    ): Promise<string | undefined> {
+        if (!prepData) {
+            return "default"; // No action was executed
+        }
+        
+        const { actions, currentStep } = prepData;
+        // Actions of one step finish together, so their index keeps history IDs unique
+        const baseTime = Date.now();
+        
+        const actionResults: ActionResult[] = actions.map((action, index) => {
+            const execResult = execResults?.[index]?.output ?? null;
+            
+            // A missing output means the call was cancelled
+            const error: ActionError | undefined = execResults?.[index]?.error
+                ?? (execResult === null ? { kind: 'cancelled', message: `${action.tool} was cancelled`, retryable: false } : undefined);
+            const isError = !!error;
+            
+            // Generate unique history ID for this action
+            const historyId = `action-${currentStep}-${baseTime}-${index}`;
+            
+            // Emit action completion progress
+            this.emitProgress(shared, 'action_complete', {
+                tool: action.tool,
+                server: action.server,
+                success: !isError,
+                errorKind: error?.kind,
+                result: this.formatResultSummary(execResult || 'Failed execution'),
+                historyId: historyId
+            }, currentStep);
+            
+            console.log(`📋 Action result added to history with ID: ${historyId} (${isError ? `FAILED: ${error?.kind}` : 'SUCCESS'})`);
+            
+            return {
+                step: currentStep,
+                stepType: 'action',  // Mark as external action
+                server: action.server,
+                tool: action.tool,
+                parameters: execResults?.[index]?.parameters ?? action.parameters,
+                result: execResult || `Failed execution: ${action.tool}`,
+                justification: action.justification,
+                success: !isError,
+                historyId: historyId,  // Add unique identifier
+                timestamp: baseTime,
+                durationMs: execResults?.[index]?.durationMs,
+                validationErrors: execResults?.[index]?.validationErrors,
+                error
+            };
+        });
+        
+        // Forgotten memories leave the prompt
+        const forgotten = actionResults
+            .filter(result => result.success && result.server === INTERNAL_SERVER && result.tool === FORGET_TOOL)
+            .map(result => String(result.parameters?.id || '').toLowerCase());
+        if (forgotten.length > 0 && shared.recalledMemories) {
+            shared.recalledMemories = shared.recalledMemories.filter(memory => !forgotten.includes(memory.id.toLowerCase()));
+        }
+        
+        // Tools found with list_tools stay in the reasoning prompt
+        const listedToolKeys = (execResults || []).flatMap(result => result?.listedToolKeys || []);
+        if (listedToolKeys.length > 0) {
+            shared.listedToolKeys = Array.from(new Set([...(shared.listedToolKeys || []), ...listedToolKeys]));
+        }
+        
+        // Update shared state
+        Object.assign(shared, {
+            actionHistory: [...(shared.actionHistory || []), ...actionResults],
+            nextActions: undefined // Clear the actions after execution
+            // Note: currentStep increment handled by ReasoningNode
+        });
         
+        return "default";
+    }
+
+    /**
+     * Check a call's parameters against the tool's inputSchema, coercing obvious type mismatches
+     * Built-in tools and tools without a schema are passed through unchanged
+     */
+    private validateParameters(action: ActionDecision, tools: MCPTool[]): { parameters: Record<string, any>; errors: string[] } {
+        const parameters = action.parameters || {};
+        const tool = this.findTool(action, tools);
+        if (this.isInternalTool(action) || !tool?.inputSchema || typeof tool.inputSchema !== 'object') {
+            return { parameters, errors: [] };
+        }
+
+        const { value, errors } = coerceToJsonSchema(parameters, tool.inputSchema);
+        if (errors.length > 0) {
+            console.warn(`⚠️ Invalid parameters for ${action.tool} (${action.server}):`, errors);
+        } else if (JSON.stringify(value) !== JSON.stringify(parameters)) {
+            console.log(`🔧 Coerced parameters for ${action.tool}:`, JSON.stringify(value));
+        }
+        return { parameters: value, errors };
+    }
+
+    /**
+     * Record a call that failed validation, with the parameters the tool expects
+     */
+    private validationFailure(action: ActionDecision, errors: string[], tools: MCPTool[]): CallOutcome {
+        const summary = `Invalid parameters for ${action.tool} (${action.server}) - the call was not sent`;
+        let message = `Error: ${summary}:\n`;
+        message += errors.map(error => `- ${error}`).join('\n');
+
+        const schema = this.findTool(action, tools)?.inputSchema;
+        const properties = schema?.properties || {};
+        const required: string[] = Array.isArray(schema?.required) ? schema.required : [];
+        const expected = Object.entries(properties).map(([name, property]: [string, any]) => {
+            const type = property?.type ? (Array.isArray(property.type) ? property.type.join('|') : property.type) : 'any';
+            const values = Array.isArray(property?.enum) ? ` one of ${property.enum.map((v: any) => JSON.stringify(v)).join(', ')}` : '';
+            return `"${name}": ${type}${values}${required.includes(name) ? ' (required)' : ''}`;
+        });
+        if (expected.length > 0) {
+            message += `\nExpected parameters: {${expected.join(', ')}}`;
+        }
+        return {
+            output: message,
+            error: { kind: 'validation', message: `${summary}: ${errors.join('; ')}`, retryable: false }
+        };
+    }
+
+    private findTool(action: ActionDecision, tools: MCPTool[]): MCPTool | undefined {
+        return tools.find(tool => tool.name === action.tool && tool.server === action.server);
+    }
+
+    /**
+     * Whether a call is a built-in tool (read_result, list_tools or a memory tool)
+     */
+    private isInternalTool(action: ActionDecision): boolean {
+        return action.server === INTERNAL_SERVER;
+    }
+
+    /**
+     * Whether a call goes through the approval gate: every MCP tool, and the built-in
+     * memory writes (remember, forget). Read-only built-in tools are exempt.
+     */
+    private needsApproval(action: ActionDecision): boolean {
+        return !this.isInternalTool(action) || action.tool === REMEMBER_TOOL || action.tool === FORGET_TOOL;
+    }
+
+    /**
+     * Run a built-in tool locally
+     */
+    private async runInternalTool(action: ActionDecision, prepData: ActionPrepData): Promise<CallOutcome> {
+        try {
+            switch (action.tool) {
+                case READ_RESULT_TOOL:
+                    return { output: this.readResult(action, prepData.history) };
+                case LIST_TOOLS_TOOL:
+                    return this.listTools(action, prepData);
+                case REMEMBER_TOOL:
+                case RECALL_TOOL:
+                case FORGET_TOOL:
+                    return { output: await this.runMemoryTool(action, prepData.memory) };
+                default:
+                    throw new ToolCallError('validation', `Unknown built-in tool "${action.tool}" on the ${INTERNAL_SERVER} server`);
+            }
+        } catch (error) {
+            console.error(`❌ Built-in tool ${action.tool} failed:`, error);
+            const actionError = classifyToolError(error);
+            return { output: `Error: ${actionError.message}`, error: actionError };
+        }
+    }
+
+    /**
+     * Read a stored result (or a slice of it) by historyId
+     */
+    private readResult(action: ActionDecision, history: ActionResult[]): string {
+        const { historyId, offset, length } = action.parameters || {};
+        if (typeof historyId !== 'string' || !historyId) {
+            throw new ToolCallError('validation', `${READ_RESULT_TOOL} requires a "historyId" parameter`);
+        }
+        return readResultSlice(history, historyId, Number(offset) || 0, length !== undefined ? Number(length) : undefined);
+    }
+
+    /**
+     * Search the tool catalog by keywords, or list the tools of one server
+     */
+    private listTools(action: ActionDecision, prepData: ActionPrepData): CallOutcome {
+        const { query, server, limit } = action.parameters || {};
+        const maxTools = Math.min(Math.max(1, Number(limit) || DEFAULT_LISTED_TOOLS), MAX_LISTED_TOOLS);
+        let tools = prepData.tools;
+
+        if (typeof server === 'string' && server.trim()) {
+            tools = tools.filter(tool => tool.server === server.trim());
+            if (tools.length === 0) {
+                const servers = Array.from(new Set(prepData.tools.map(tool => tool.server)));
+                throw new ToolCallError('validation', `No server named "${server}". Servers: ${servers.join(', ')}`);
+            }
+        }
+        if (typeof query === 'string' && query.trim()) {
+            const index = prepData.toolIndex && tools === prepData.tools ? prepData.toolIndex : new ToolIndex(tools);
+            tools = index.search(query, maxTools);
+            if (tools.length === 0) {
+                return { output: `No tools match "${query}"` };
+            }
+        }
+
+        const shown = tools.slice(0, maxTools);
+        const more = tools.length > shown.length ? `\n(${tools.length - shown.length} more - narrow the search with "query" or "server")` : '';
+        return {
+            output: `${shown.length} tool(s)${query ? ` matching "${query}"` : ''}${server ? ` on ${server}` : ''}:\n${formatToolList(shown)}${more}`,
+            listedToolKeys: shown.map(getToolKey)
+        };
+    }
+
+    /**
+     * Remember, recall or forget a long-term memory
+     */
+    private async runMemoryTool(action: ActionDecision, memory?: AgentMemory): Promise<string> {
+        if (!memory) {
+            throw new ToolCallError('permission', 'Long-term memory is disabled in settings');
+        }
+
+        const params = action.parameters || {};
+        switch (action.tool) {
+            case REMEMBER_TOOL: {
+                if (typeof params.content !== 'string' || !params.content.trim()) {
+                    throw new ToolCallError('validation', `${REMEMBER_TOOL} requires a "content" parameter`);
+                }
+                const tags = Array.isArray(params.tags) ? params.tags.map(String) : typeof params.tags === 'string' ? params.tags.split(',') : [];
+                const entry = await memory.remember(params.content, tags);
+                return `Remembered as [${entry.id}]: ${entry.content}`;
+            }
+            case RECALL_TOOL: {
+                const query = String(params.query || '');
+                const memories = await memory.recall(query, Number(params.limit) || undefined);
+                return memories.length > 0 ? `Memories matching "${query}":\n${formatMemories(memories)}` : `No memories match "${query}"`;
+            }
+            default: {
+                const id = String(params.id || '').trim();
+                if (!id) {
+                    throw new ToolCallError('validation', `${FORGET_TOOL} requires an "id" parameter`);
+                }
+                if (!await memory.forget(id)) {
+                    throw new ToolCallError('tool_error', `No memory with ID "${id}"`);
+                }
+                return `Forgot memory [${id}]`;
+            }
+        }
+    }
+
+    /**
+     * Pass a tool call through the agent profile's allow-list and the approval gate
+     * Returns null when the call may run, or the rejection to record as its result.
+     * Profiles list catalog tools, so built-in memory writes only pass the approval gate
+     * (give "remember" or "forget" a policy to control them)
+     */
+    private async checkApproval(action: ActionDecision, prepData: ActionPrepData): Promise<CallOutcome | null> {
+        if (!this.isInternalTool(action) && !isToolAllowedByProfile(prepData.profile, action.server, action.tool)) {
+            console.log(`🚫 Tool call outside profile ${prepData.profile?.name}: ${action.tool} (${action.server})`);
+            return {
+                output: `${REJECTED_PREFIX} ${action.tool} was not run (not allowed by the ${prepData.profile?.name} profile). Use only the tools listed.`,
+                error: { kind: 'permission', message: `${action.tool} is not allowed by the ${prepData.profile?.name} profile`, retryable: false }
+            };
+        }
+
+        if (!prepData.approveToolCall) {
+            return null;
+        }
+
+        try {
+            const decision = await prepData.approveToolCall({
+                server: action.server,
+                tool: action.tool,
+                parameters: action.parameters,
+                justification: action.justification,
+                step: prepData.currentStep
+            }, prepData.signal);
+
+            if (decision.approved) {
+                return null;
+            }
+
+            console.log(`🚫 Tool call rejected: ${action.tool} (${action.server})${decision.reason ? ` - ${decision.reason}` : ''}`);
+            const reason = decision.reason ? ` (${decision.reason})` : '';
+            return {
+                output: `${REJECTED_PREFIX} ${action.tool} was not run${reason}. Do not retry the same call - choose a different approach or complete with the information available.`,
+                error: { kind: 'permission', message: `${action.tool} was rejected${reason}`, retryable: false }
+            };
+        } catch (error) {
+            const actionError = classifyToolError(error);
+            if (actionError.kind === 'cancelled') {
+                return { output: null, error: actionError };
+            }
+            console.error('❌ Tool approval failed:', error);
+            return {
+                output: `${REJECTED_PREFIX} ${action.tool} was not run (approval failed: ${actionError.message}).`,
+                error: { kind: 'permission', message: `Approval failed: ${actionError.message}`, retryable: false }
+            };
+        }
+    }
+
+    /**
+     * Run one tool call with the node's retry settings
+     * Retries are per call, so a failing tool doesn't re-run the others in the step, and
+     * only for retryable failures; after the last attempt the error is returned as the
+     * result (see execFallback) together with its kind
+     */
+    private async executeWithRetry(action: ActionDecision, signal?: AbortSignal): Promise<CallOutcome> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return { output: await this.executeAction(action, signal) };
+            } catch (error) {
+                const actionError = classifyToolError(error);
+                if (attempt >= this.maxRetries - 1 || signal?.aborted || !actionError.retryable) {
+                    const output = await this.execFallback({ actions: [action], currentStep: 0, tools: [], history: [], signal }, error as Error);
+                    return { output, error: signal?.aborted ? { ...actionError, kind: 'cancelled', retryable: false } : actionError };
+                }
+                console.warn(`⚠️ ${action.tool} failed (attempt ${attempt + 1}/${this.maxRetries}): ${(error as Error).message}`);
+                if (this.wait > 0) {
+                    await new Promise(resolve => setTimeout(resolve, this.wait * 1000));
+                }
+            }
+        }
+    }
+
+    private async executeAction(action: ActionDecision, signal?: AbortSignal): Promise<string | null> {
         // Check for cancellation before executing tool
         if (signal?.aborted) {
             console.log('🛑 Action node exec: Operation was cancelled before tool execution');
@@ -68,7 +478,7 @@ export class ReActActionNode extends Node<AgentSharedState> {
         
         // Validate result
         if (typeof result !== 'string' || result.trim().length === 0) {
-            throw new Error('Tool returned empty or invalid result');
+            throw new ToolCallError('tool_error', 'Tool returned empty or invalid result');
         }
         
         // Check for error indicators in result
@@ -79,65 +489,12 @@ export class ReActActionNode extends Node<AgentSharedState> {
             // Don't throw here - let the reasoning node decide how to handle
         }
         
-        console.log(`✅ Action completed successfully`);
+        console.log(`✅ Action completed successfully: ${action.tool}`);
         console.log(`📄 Result (${result.length} chars):`, result.substring(0, 300) + (result.length > 300 ? '...' : ''));
         
         return result;
     }
 
-    async post(
-        shared: AgentSharedState,
-        prepData: { action: any; currentStep: number } | null,
-        execResult: string | null
-    ): Promise<string | undefined> {
-        if (!prepData) {
-            return "default"; // No action was executed
-        }
-        
-        const { action, currentStep } = prepData;
-        
-        // Handle both successful and failed executions
-        const isError = execResult?.startsWith('Error:') || execResult === null;
-        
-        // Generate unique history ID for this action step
-        const historyId = `action-${currentStep}-${Date.now()}`;
-        
-        const actionResult: ActionResult = {
-            step: currentStep,
-            stepType: 'action',  // Mark as external action
-            server: action.server,
-            tool: action.tool,
-            parameters: action.parameters,
-            result: execResult || `Failed execution: ${action.tool}`,
-            justification: action.justification,
-            success: !isError,
-            historyId: historyId  // Add unique identifier
-        };
-        
-        // Add to action history
-        const actionHistory = [...(shared.actionHistory || []), actionResult];
-        
-        // Emit action completion progress
-        this.emitProgress(shared, 'action_complete', {
-            tool: action.tool,
-            server: action.server,
-            success: !isError,
-            result: this.formatResultSummary(execResult || 'Failed execution'),
-            historyId: historyId
-        }, currentStep);
-        
-        // Update shared state
-        Object.assign(shared, {
-            actionHistory,
-            nextAction: undefined // Clear the action after execution
-            // Note: currentStep increment handled by ReasoningNode
-        });
-        
-        console.log(`📋 Action result added to history with ID: ${historyId} (${isError ? 'FAILED' : 'SUCCESS'})`);
-        
-        return "default";
-    }
-
     /**
      * Emit progress event to callback if available
      */
@@ -186,7 +543,7 @@ export class ReActActionNode extends Node<AgentSharedState> {
      * Fallback method when all retries fail
      * Following PocketFlow execFallback pattern with cancellation handling
      */
-    async execFallback(prepData: { action: any; currentStep: number; signal?: AbortSignal } | null, error: Error): Promise<string | null> {
+    async execFallback(prepData: ActionPrepData | null, error: Error): Promise<string | null> {
         if (!prepData) {
             return null;
         }
@@ -200,26 +557,4 @@ export class ReActActionNode extends Node<AgentSharedState> {
         console.log('🔄 Using action execution fallback...');
         return `Error: ${error.message}`;
     }
-
-    /**
-     * Check if an error is non-retryable
-     */
-    private isNonRetryableError(error: Error): boolean {
-        const message = error.message.toLowerCase();
-        
-        // Configuration or permission errors that won't be fixed by retrying
-        const nonRetryablePatterns = [
-            'not found',
-            'unauthorized',
-            'forbidden',
-            'invalid api key',
-            'permission denied',
-            'quota exceeded',
-            'rate limit exceeded',
-            'invalid parameters',
-            'malformed request'
-        ];
-        
-        return nonRetryablePatterns.some(pattern => message.includes(pattern));
-    }
 }
\ No newline at end of file
@@ -1,9 +1,34 @@
 import { Node } from "pocketflow";
-import { AgentSharedState, LLMProvider, ReasoningResponse, ActionDecision, LLMProcessingRequest, AgentProgressEvent } from '../types';
+import { AgentSharedState, LLMProvider, ReasoningResponse, ActionDecision, ActionResult, LLMProcessingRequest, AgentProgressEvent, AgentMemory, AgentMemoryEntry } from '../types';
+import { applyPlanUpdates, formatPlanChecklist, MAX_PLAN_ITEMS } from '../../utils/planUtils';
+import { getExceededBudget } from '../../utils/budgetUtils';
+import { digestResult, INTERNAL_SERVER, MAX_READ_CHARS, READ_RESULT_TOOL } from '../../utils/historyUtils';
+import { FORGET_TOOL, formatMemories, MAX_RECALLED_MEMORIES, RECALL_TOOL, REMEMBER_TOOL } from '../../utils/memoryUtils';
+import { getToolKey, LIST_TOOLS_TOOL, selectPromptTools } from '../../utils/toolRankingUtils';
+import { formatProfilePreamble, isDecisionEnabled } from '../../utils/profileUtils';
+import { describeActionError } from '../../utils/actionErrorUtils';
+
+/**
+ * Maximum tool calls the model may request in a single step
+ */
+const MAX_ACTIONS_PER_STEP = 8;
+
+/**
+ * Prompt budget (characters) for previous step results
+ * Results of the latest step get the most room, so a read_result slice is seen in full;
+ * older ones are digested, and once the budget is spent only a short preview remains
+ */
+const MAX_HISTORY_PROMPT_CHARS = 30000;
+const RECENT_RESULT_CHARS = MAX_READ_CHARS + 500;
+const OLDER_RESULT_CHARS = 1500;
+const MIN_RESULT_CHARS = 200;
 
 /**
  * Node for ReAct reasoning step
  * Following PocketFlow TypeScript SDK patterns with built-in retry logic
+ * In plan-and-execute mode it also ticks off plan items and re-plans when a step fails
+ * With long-term memory enabled, memories relevant to the request are recalled at step 1
+ * After a failed self-critique it is shown the gaps the review found
  */
 export class ReActReasoningNode extends Node<AgentSharedState> {
     constructor(
@@ -32,6 +57,10 @@ export class ReActReasoningNode extends Node<AgentSharedState> {
             description: `Analyzing situation and planning next action`,
             progress: `Step ${currentStep}/${maxSteps}`
         }, currentStep);
+
+        if (currentStep === 1 && shared.memory && !shared.recalledMemories) {
+            shared.recalledMemories = await this.recallMemories(shared.memory, shared.userRequest || '');
+        }
         
         return { state: shared, currentStep };
     }
@@ -55,56 +84,30 @@ export class ReActReasoningNode extends Node<AgentSharedState> {
         
         const response = await this.llmProvider.callLLMWithSchema(
             prompt,
-            this.getReasoningSchema(),
+            this.getReasoningSchema(state),
             state.modelConfig?.reasoning
         );
         
-        const reasoning: ReasoningResponse = typeof response === 'string' 
-            ? JSON.parse(response) 
-            : response;
-        
-        // Validate the response structure and types
-        if (!reasoning || typeof reasoning !== 'object') {
-            throw new Error('Reasoning response must be an object');
-        }
-        
-        if (!reasoning.reasoning || typeof reasoning.reasoning !== 'string') {
-            console.error('🚨 Invalid reasoning field:', typeof reasoning.reasoning, reasoning.reasoning);
-            throw new Error(`Reasoning field must be a non-empty string, but received ${typeof reasoning.reasoning}: ${JSON.stringify(reasoning.reasoning)}`);
-        }
-        
-        if (!reasoning.decision || typeof reasoning.decision !== 'string') {
-            console.error('🚨 Invalid decision field:', typeof reasoning.decision, reasoning.decision);
-            throw new Error(`Decision field must be a non-empty string, but received ${typeof reasoning.decision}: ${JSON.stringify(reasoning.decision)}`);
-        }
-        
-        if (!reasoning.goalStatus || typeof reasoning.goalStatus !== 'string') {
-            console.error('🚨 Invalid goalStatus field:', typeof reasoning.goalStatus, reasoning.goalStatus);
-            throw new Error(`GoalStatus field must be a non-empty string, but received ${typeof reasoning.goalStatus}: ${JSON.stringify(reasoning.goalStatus)}`);
-        }
-        
-        // Validate decision enum
-        const validDecisions = ["continue", "complete", "llm_processing", "process_image", "generate_speech"];
-        if (!validDecisions.includes(reasoning.decision)) {
-            console.error('🚨 Invalid decision value:', reasoning.decision);
-            throw new Error(`Decision must be one of ${validDecisions.join(', ')}, but received: ${reasoning.decision}`);
-        }
+        // callLLMWithSchema validates against getReasoningSchema (types, decision enum and
+        // the fields each decision requires), so the response can be used as-is
+        const reasoning: ReasoningResponse = response;
         
         console.log(`💭 Reasoning: ${reasoning.reasoning}`);
         console.log(`📊 Goal Status: ${reasoning.goalStatus}`);
         console.log(`🎯 Decision: ${reasoning.decision}`);
         
-        if (reasoning.action) {
-            console.log(`🛠️ Next Action: ${reasoning.action.tool} (${reasoning.action.server})`);
-            console.log(`📝 Justification: ${reasoning.action.justification}`);
-        }
+        const actions = this.getActions(reasoning);
+        actions.forEach(action => {
+            console.log(`🛠️ Next Action: ${action.tool} (${action.server})`);
+            console.log(`📝 Justification: ${action.justification}`);
+        });
         
         // Emit reasoning completion progress
         this.emitProgress(state, 'reasoning_complete', {
             reasoning: this.truncateText(reasoning.reasoning, 200),
             decision: reasoning.decision,
             goalStatus: reasoning.goalStatus,
-            nextAction: reasoning.action ? `${reasoning.action.tool} (${reasoning.action.server})` : 'None'
+            nextAction: actions.length > 0 ? actions.map(action => `${action.tool} (${action.server})`).join(', ') : 'None'
         }, currentStep);
         
         return reasoning;
@@ -128,31 +131,29 @@ export class ReActReasoningNode extends Node<AgentSharedState> {
             currentStep,
             currentReasoning: reasoning.reasoning,
             goalStatus: reasoning.goalStatus,
-            nextAction: reasoning.action
+            nextActions: reasoning.decision === 'continue' ? this.getActions(reasoning) : undefined
         });
+
+        // Tick off plan items and apply any re-plan
+        if (shared.plan && (reasoning.planUpdates?.length || reasoning.revisedPlan?.length)) {
+            shared.plan = applyPlanUpdates(shared.plan, reasoning.planUpdates, reasoning.revisedPlan);
+            if (reasoning.revisedPlan?.length) {
+                console.log(`📋 Re-planned: ${reasoning.revisedPlan.length} remaining steps`);
+            }
+            this.emitProgress(shared, 'plan_updated', { plan: shared.plan, revised: !!reasoning.revisedPlan?.length }, currentStep);
+        }
+
+        // Keep each step's reasoning for the run trace
+        shared.reasoningHistory = [...(shared.reasoningHistory || []), {
+            step: currentStep,
+            reasoning: reasoning.reasoning,
+            decision: reasoning.decision,
+            goalStatus: reasoning.goalStatus,
+            timestamp: Date.now()
+        }];
         
         // Handle LLM processing requests
         if (reasoning.decision === 'llm_processing') {
-            if (!reasoning.llmTask || !reasoning.llmPrompt || !reasoning.inputHistoryId) {
-                throw new Error('LLM processing decision requires llmTask, llmPrompt, and inputHistoryId');
-            }
-            
-            // Validate that required fields are actually strings
-            if (typeof reasoning.llmTask !== 'string') {
-                console.error('🚨 Invalid llmTask type:', typeof reasoning.llmTask, reasoning.llmTask);
-                throw new Error(`LLM processing requires llmTask to be a string, but received ${typeof reasoning.llmTask}: ${JSON.stringify(reasoning.llmTask)}`);
-            }
-            
-            if (typeof reasoning.llmPrompt !== 'string') {
-                console.error('🚨 Invalid llmPrompt type:', typeof reasoning.llmPrompt, reasoning.llmPrompt);
-                throw new Error(`LLM processing requires llmPrompt to be a string, but received ${typeof reasoning.llmPrompt}: ${JSON.stringify(reasoning.llmPrompt)}`);
-            }
-            
-            if (typeof reasoning.inputHistoryId !== 'string') {
-                console.error('🚨 Invalid inputHistoryId type:', typeof reasoning.inputHistoryId, reasoning.inputHistoryId);
-                throw new Error(`LLM processing requires inputHistoryId to be a string, but received ${typeof reasoning.inputHistoryId}: ${JSON.stringify(reasoning.inputHistoryId)}`);
-            }
-            
             // Handle special case: "user_request" refers to original user request
             let inputHistoryId = reasoning.inputHistoryId;
             if (inputHistoryId === 'user_request') {
@@ -172,7 +173,8 @@ export class ReActReasoningNode extends Node<AgentSharedState> {
                     result: shared.userRequest || '',
                     justification: 'Original user request content',
                     success: true,
-                    historyId: userRequestHistoryId
+                    historyId: userRequestHistoryId,
+                    timestamp: Date.now()
                 });
                 
                 inputHistoryId = userRequestHistoryId;
@@ -190,21 +192,6 @@ export class ReActReasoningNode extends Node<AgentSharedState> {
         
         // Handle image processing requests (generation + editing)
         if (reasoning.decision === 'process_image') {
-            if (!reasoning.imagePrompt) {
-                throw new Error('Image processing decision requires imagePrompt');
-            }
-            
-            // Validate that imagePrompt is actually a string
-            if (typeof reasoning.imagePrompt !== 'string') {
-                console.error('🚨 Invalid imagePrompt type:', typeof reasoning.imagePrompt, reasoning.imagePrompt);
-                throw new Error(`Image processing requires imagePrompt to be a string, but received ${typeof reasoning.imagePrompt}: ${JSON.stringify(reasoning.imagePrompt)}`);
-            }
-            
-            // Validate that imagePrompt is not empty
-            if (reasoning.imagePrompt.trim().length === 0) {
-                throw new Error('Image processing requires non-empty imagePrompt');
-            }
-            
             // Set the image prompt and configuration in shared state
             shared.currentImagePrompt = reasoning.imagePrompt;
             
@@ -213,26 +200,10 @@ export class ReActReasoningNode extends Node<AgentSharedState> {
             }
             
             console.log(`🎨 Prepared image processing: "${reasoning.imagePrompt.substring(0, 100)}${reasoning.imagePrompt.length > 100 ? '...' : ''}"`);
-            console.log(`🎨 DEBUG: Full imagePrompt from reasoning: "${reasoning.imagePrompt}"`);
         }
         
         // Handle TTS processing requests
         if (reasoning.decision === 'generate_speech') {
-            if (!reasoning.ttsText) {
-                throw new Error('TTS processing decision requires ttsText');
-            }
-            
-            // Validate that ttsText is actually a string
-            if (typeof reasoning.ttsText !== 'string') {
-                console.error('🚨 Invalid ttsText type:', typeof reasoning.ttsText, reasoning.ttsText);
-                throw new Error(`TTS processing requires ttsText to be a string, but received ${typeof reasoning.ttsText}: ${JSON.stringify(reasoning.ttsText)}`);
-            }
-            
-            // Validate that ttsText is not empty
-            if (reasoning.ttsText.trim().length === 0) {
-                throw new Error('TTS processing requires non-empty ttsText');
-            }
-            
             // Set the TTS text and configuration in shared state
             shared.currentTTSText = reasoning.ttsText;
             
@@ -241,7 +212,15 @@ export class ReActReasoningNode extends Node<AgentSharedState> {
             }
             
             console.log(`🎙️ Prepared TTS processing: "${reasoning.ttsText.substring(0, 100)}${reasoning.ttsText.length > 100 ? '...' : ''}"`);
-            console.log(`🎙️ DEBUG: Full ttsText from reasoning: "${reasoning.ttsText}"`);
+        }
+        
+        // Check the run's token, cost and time budgets
+        const exceededBudget = getExceededBudget(shared.budget, shared.usage, Date.now() - (shared.startTime || Date.now()));
+        if (exceededBudget && reasoning.decision !== 'complete') {
+            console.log(`💸 Budget exhausted: ${exceededBudget} - forcing completion`);
+            shared.budgetExceeded = exceededBudget;
+            shared.goalStatus = `Stopped early: ${exceededBudget}`;
+            return "complete"; // Force completion
         }
         
         // Check if we've reached maximum steps
@@ -309,14 +288,36 @@ export class ReActReasoningNode extends Node<AgentSharedState> {
         };
     }
 
+    /**
+     * Get the tool calls of a reasoning response, whether given as one `action` or an `actions` array
+     */
+    private getActions(reasoning: ReasoningResponse): ActionDecision[] {
+        if (reasoning.actions && reasoning.actions.length > 0) {
+            return reasoning.actions;
+        }
+        return reasoning.action ? [reasoning.action] : [];
+    }
+
     private buildReasoningPrompt(state: AgentSharedState, currentStep: number): string {
         const tools = state.availableTools || [];
         const history = state.actionHistory || [];
         const maxSteps = state.maxSteps || 10;
         const remainingSteps = maxSteps - currentStep;
         
+        const imageEnabled = isDecisionEnabled(state.profile, 'process_image');
+        const speechEnabled = isDecisionEnabled(state.profile, 'generate_speech');
+        const decisions = this.getDecisions(state);
+        
         let prompt = `You are a ReAct (Reasoning + Acting) agent. Your task is to help with: "${state.userRequest}"\n\n`;
         
+        // The profile's preamble sets the agent's role and working style
+        prompt += formatProfilePreamble(state.profile);
+        
+        // Earlier turns let follow-up requests refer to previous answers
+        if (state.conversationContext) {
+            prompt += `## Conversation So Far:\n${state.conversationContext}\n\n`;
+        }
+        
         // Add step efficiency awareness
         prompt += `## Step Efficiency Guidelines:\n`;
         prompt += `⏱️ **Current Step**: ${currentStep}/${maxSteps} (${remainingSteps} steps remaining)\n`;
@@ -340,14 +341,29 @@ export class ReActReasoningNode extends Node<AgentSharedState> {
         
         // Add available tools with enhanced information
         if (tools.length > 0) {
-            prompt += `## Available Tools (IMPORTANT: Use exact server names shown):\n`;
+            // Large catalogs: list the tools most relevant to the task so far, plus tools already used or found with list_tools
+            const shownTools = selectPromptTools(
+                tools,
+                state.toolIndex,
+                [state.userRequest, state.currentReasoning, state.goalStatus, ...(state.reflectionGaps || [])].filter(Boolean).join(' '),
+                [
+                    ...history.filter(action => action.stepType === 'action').map(action => getToolKey({ server: action.server, name: action.tool })),
+                    ...(state.listedToolKeys || [])
+                ]
+            );
+            if (shownTools.length < tools.length) {
+                prompt += `## Available Tools (${shownTools.length} most relevant of ${tools.length} - IMPORTANT: Use exact server names shown):\n`;
+                prompt += `Search the other tools with "${LIST_TOOLS_TOOL}" (SERVER: ${INTERNAL_SERVER}) when none of these fits; any tool it finds can be called directly.\n`;
+            } else {
+                prompt += `## Available Tools (IMPORTANT: Use exact server names shown):\n`;
+            }
             
             // Group tools by server for better organization while keeping server names clear
-            const toolsByServer = tools.reduce((acc, tool) => {
+            const toolsByServer = shownTools.reduce((acc, tool) => {
                 if (!acc[tool.server]) acc[tool.server] = [];
                 acc[tool.server].push(tool);
                 return acc;
-            }, {} as Record<string, typeof tools>);
+            }, {} as Record<string, typeof shownTools>);
             
             Object.entries(toolsByServer).forEach(([serverName, serverTools]) => {
                 prompt += `\n**${serverName}:**\n`;
@@ -365,16 +381,49 @@ export class ReActReasoningNode extends Node<AgentSharedState> {
             prompt += `## Available Tools:\nNo tools are currently available. You can still reason and provide helpful responses.\n\n`;
         }
         
+        // Built-in tools for reading stored results, searching the tool catalog and managing long-term memory
+        if (history.length > 0 || state.memory || state.toolIndex) {
+            prompt += `**${INTERNAL_SERVER}:**\n`;
+            if (state.toolIndex) {
+                prompt += `- **${LIST_TOOLS_TOOL}** (SERVER: ${INTERNAL_SERVER}): Search all ${state.toolIndex.size} tools by keywords, or list the tools of one server, with their parameters\n`;
+                prompt += `  Parameters: {"query", "server", "limit"}\n`;
+            }
+            if (history.length > 0) {
+                prompt += `- **${READ_RESULT_TOOL}** (SERVER: ${INTERNAL_SERVER}): Read the full content of an earlier result, or a slice of it (up to ${MAX_READ_CHARS} chars per call)\n`;
+                prompt += `  Parameters: {"historyId", "offset", "length"}\n`;
+            }
+            if (state.memory) {
+                prompt += `- **${REMEMBER_TOOL}** (SERVER: ${INTERNAL_SERVER}): Save a lasting fact for future runs (a preference, where things live in the vault, a convention). One self-contained fact per call\n`;
+                prompt += `  Parameters: {"content", "tags"}\n`;
+                prompt += `- **${RECALL_TOOL}** (SERVER: ${INTERNAL_SERVER}): Search long-term memory for facts not shown below\n`;
+                prompt += `  Parameters: {"query", "limit"}\n`;
+                prompt += `- **${FORGET_TOOL}** (SERVER: ${INTERNAL_SERVER}): Delete an outdated or wrong memory by its ID\n`;
+                prompt += `  Parameters: {"id"}\n`;
+            }
+            prompt += `\n`;
+        }
+
+        // Facts remembered in earlier runs
+        if (state.memory) {
+            const memories = state.recalledMemories || [];
+            prompt += `## Long-Term Memory:\n`;
+            prompt += memories.length > 0
+                ? `Facts saved in earlier runs that may apply to this request (prefer them over guessing; forget any that turn out wrong):\n${formatMemories(memories)}\n\n`
+                : `No saved memories match this request.\n\n`;
+            prompt += `Only remember facts that will still matter in future runs and that the user stated or you verified - not task results or temporary details.\n\n`;
+        }
+        
         // Add action history with historyId references
+        // Full results stay in the history; the prompt gets a size-bounded digest of each
         if (history.length > 0) {
+            const digests = this.getResultDigests(history);
             prompt += `## Previous Actions:\n`;
-            history.forEach((action) => {
+            prompt += `Long results are shortened here. Their full content stays available by history ID: read it (or a slice) with the "${READ_RESULT_TOOL}" tool, or pass the ID to "llm_processing".\n\n`;
+            history.forEach((action, index) => {
                 const stepTypeIcon = action.stepType === 'llm_processing' ? '🧠' : '🔧';
-                prompt += `[${action.historyId}] ${stepTypeIcon} Step ${action.step} (${action.stepType}): ${action.tool} - ${action.success ? 'SUCCESS' : 'FAILED'}\n`;
-                
-                // Provide complete results for proper decision making
-                // Show full content to enable correct decision-making
-                prompt += `Result: ${action.result}\n\n`;
+                const status = action.success ? 'SUCCESS' : action.error ? `FAILED [${describeActionError(action.error)}]` : 'FAILED';
+                prompt += `[${action.historyId}] ${stepTypeIcon} Step ${action.step} (${action.stepType}): ${action.tool} - ${status} (${action.result.length} chars)\n`;
+                prompt += `Result: ${digests[index]}\n\n`;
             });
         }
         
@@ -390,8 +439,27 @@ export class ReActReasoningNode extends Node<AgentSharedState> {
         }
         prompt += `\n`;
         
+        // Plan-and-execute: work through the plan and keep it current
+        const plan = state.plan || [];
+        if (plan.length > 0) {
+            prompt += `## Plan:\n${formatPlanChecklist(plan)}\n\n`;
+            prompt += `Work through the plan in order; it replaces up-front task decomposition.\n`;
+            prompt += `- Use "planUpdates" to mark items that the results above have finished ("done"), that can't be achieved ("failed") or that are no longer needed ("skipped")\n`;
+            prompt += `- If a step failed or the plan no longer fits, use "revisedPlan" to replace all unfinished items with a new ordered list of steps\n\n`;
+        }
+        
+        // Self-critique sent the run back: address what the review found missing
+        if (state.reflectionGaps && state.reflectionGaps.length > 0) {
+            prompt += `## Review Feedback:\n`;
+            prompt += `You decided the task was complete, but a review of the results found these gaps:\n`;
+            state.reflectionGaps.forEach(gap => {
+                prompt += `- ${gap}\n`;
+            });
+            prompt += `\nAddress them before choosing "complete" again. If a gap cannot be filled, say why in goalStatus and complete.\n\n`;
+        }
+        
         // Add task decomposition for first step with efficiency planning
-        if (currentStep === 1 && (history.length === 0)) {
+        if (currentStep === 1 && (history.length === 0) && plan.length === 0) {
             prompt += `## Initial Task Decomposition & Efficiency Planning:\n`;
             prompt += `Before taking any actions, analyze the user request and plan efficiently:\n`;
             prompt += `1. What is the complete goal the user wants to achieve?\n`;
@@ -404,12 +472,18 @@ export class ReActReasoningNode extends Node<AgentSharedState> {
             prompt += `Consider: Can multiple operations be combined? Can related tasks be handled together? What's the most direct path to completion?\n\n`;
         }
         
+        const decisionDescriptions: Record<string, string> = {
+            continue: 'Use external tools for data gathering, file operations, web requests',
+            llm_processing: 'Process content using internal LLM capabilities (translate, summarize, analyze, transform, extract, **fix code**, **rewrite code**, etc.)',
+            process_image: 'Create or edit visual content using Gemini (generate new images, edit existing ones)',
+            generate_speech: 'Convert text to speech using Gemini TTS (read aloud, audio narration, voice generation)',
+            complete: 'Task is finished, ready for final summary'
+        };
         prompt += `## Available Decisions:\n`;
-        prompt += `1. **"continue"**: Use external tools for data gathering, file operations, web requests\n`;
-        prompt += `2. **"llm_processing"**: Process content using internal LLM capabilities (translate, summarize, analyze, transform, extract, **fix code**, **rewrite code**, etc.)\n`;
-        prompt += `3. **"process_image"**: Create or edit visual content using Gemini (generate new images, edit existing ones)\n`;
-        prompt += `4. **"generate_speech"**: Convert text to speech using Gemini TTS (read aloud, audio narration, voice generation)\n`;
-        prompt += `5. **"complete"**: Task is finished, ready for final summary\n\n`;
+        decisions.forEach((decision, i) => {
+            prompt += `${i + 1}. **"${decision}"**: ${decisionDescriptions[decision]}\n`;
+        });
+        prompt += `\n`;
         
         prompt += `## LLM Processing Instructions:\n`;
         prompt += `When using "llm_processing", you must specify:\n`;
@@ -417,38 +491,52 @@ export class ReActReasoningNode extends Node<AgentSharedState> {
         prompt += `- "llmPrompt": Specific instructions for the LLM (be detailed and clear)\n`;
         prompt += `- "inputHistoryId": Reference to content to process:\n`;
         prompt += `  * Use "user_request" to process the original user request\n`;
-        prompt += `  * **CRITICAL**: Use EXACT history ID from brackets above (e.g., "llm-4-123456789", "action-1-123456789")\n`;
+        prompt += `  * **CRITICAL**: Use EXACT history ID from brackets above (e.g., "llm-4-123456789", "action-1-123456789-0")\n`;
         prompt += `  * **DO NOT** modify prefixes: "llm-" stays "llm-", "action-" stays "action-"\n`;
-        prompt += `  * Use comma-separated IDs for multiple content like "llm-1-123,action-2-456"\n\n`;
-        
-        prompt += `## Image Processing Instructions:\n`;
-        prompt += `When using "process_image", you must specify:\n`;
-        prompt += `- "imagePrompt": Detailed description for image generation OR editing instructions for existing image\n`;
-        prompt += `- "imageConfig": Optional configuration object with:\n`;
-        prompt += `  * "aspectRatio": "1:1", "3:4", "4:3", "9:16", or "16:9" (default: "1:1")\n`;
-        prompt += `  * "numberOfImages": 1-4 (default: 1)\n`;
-        prompt += `  * "safetyFilterLevel": "BLOCK_MOST", "BLOCK_SOME", "BLOCK_FEW", or "BLOCK_NONE" (default: "BLOCK_MOST")\n\n`;
-        
-        prompt += `## TTS Processing Instructions:\n`;
-        prompt += `When using "generate_speech", you must specify:\n`;
-        prompt += `- "ttsText": Text content to convert to speech (can be from user request or previous results)\n`;
-        prompt += `- "ttsConfig": Optional configuration object with:\n`;
-        prompt += `  * "voiceName": Voice will be selected automatically based on context - do not specify\n`;
-        prompt += `  * Voice selection considers user preferences (e.g., "cheerful", "professional") and content type\n\n`;
+        prompt += `  * Use comma-separated IDs for multiple content like "llm-1-123,action-2-456-0"\n\n`;
+        
+        if (imageEnabled) {
+            prompt += `## Image Processing Instructions:\n`;
+            prompt += `When using "process_image", you must specify:\n`;
+            prompt += `- "imagePrompt": Detailed description for image generation OR editing instructions for existing image\n`;
+            prompt += `- "imageConfig": Optional configuration object with:\n`;
+            prompt += `  * "aspectRatio": "1:1", "3:4", "4:3", "9:16", or "16:9" (default: "1:1")\n`;
+            prompt += `  * "numberOfImages": 1-4 (default: 1)\n`;
+            prompt += `  * "safetyFilterLevel": "BLOCK_MOST", "BLOCK_SOME", "BLOCK_FEW", or "BLOCK_NONE" (default: "BLOCK_MOST")\n\n`;
+        }
+        
+        if (speechEnabled) {
+            prompt += `## TTS Processing Instructions:\n`;
+            prompt += `When using "generate_speech", you must specify:\n`;
+            prompt += `- "ttsText": Text content to convert to speech (can be from user request or previous results)\n`;
+            prompt += `- "ttsConfig": Optional configuration object with:\n`;
+            prompt += `  * "voiceName": Voice will be selected automatically based on context - do not specify\n`;
+            prompt += `  * Voice selection considers user preferences (e.g., "cheerful", "professional") and content type\n\n`;
+        }
         
         prompt += `## Your Task:\n`;
         prompt += `Analyze the situation and decide on the next action. You must respond with valid JSON containing:\n`;
         prompt += `- "reasoning": Your step-by-step thinking process\n`;
-        prompt += `- "decision": One of "continue", "llm_processing", "process_image", "generate_speech", or "complete"\n`;
+        prompt += `- "decision": One of ${decisions.map(decision => `"${decision}"`).join(', ')}\n`;
         prompt += `- "goalStatus": Brief status of progress toward the goal\n`;
         prompt += `- "action": If decision is "continue", specify external tool and parameters\n`;
+        prompt += `- "actions": Instead of "action", an array of up to ${MAX_ACTIONS_PER_STEP} independent tool calls (same fields as "action") that run in parallel this step - e.g. fetching several URLs or reading several files. Only batch calls that don't depend on each other's results\n`;
         prompt += `- "llmTask": If decision is "llm_processing", specify the task type\n`;
         prompt += `- "llmPrompt": If decision is "llm_processing", provide detailed processing instructions\n`;
         prompt += `- "inputHistoryId": If decision is "llm_processing", reference the history ID to process\n`;
-        prompt += `- "imagePrompt": If decision is "process_image", provide detailed description for image generation or editing\n`;
-        prompt += `- "imageConfig": If decision is "process_image", optional configuration object\n`;
-        prompt += `- "ttsText": If decision is "generate_speech", provide text content to convert to speech\n`;
-        prompt += `- "ttsConfig": If decision is "generate_speech", optional configuration object\n\n`;
+        if (imageEnabled) {
+            prompt += `- "imagePrompt": If decision is "process_image", provide detailed description for image generation or editing\n`;
+            prompt += `- "imageConfig": If decision is "process_image", optional configuration object\n`;
+        }
+        if (speechEnabled) {
+            prompt += `- "ttsText": If decision is "generate_speech", provide text content to convert to speech\n`;
+            prompt += `- "ttsConfig": If decision is "generate_speech", optional configuration object\n`;
+        }
+        if (plan.length > 0) {
+            prompt += `- "planUpdates": Optional array of {"id", "status"} for plan items whose status changed ("done", "failed" or "skipped")\n`;
+            prompt += `- "revisedPlan": Optional array of step descriptions replacing the unfinished plan items\n`;
+        }
+        prompt += `\n`;
         
         prompt += `## Guidelines:\n`;
         prompt += `- Use "continue" for external data gathering (fetch, search, file operations)\n`;
@@ -456,15 +544,19 @@ export class ReActReasoningNode extends Node<AgentSharedState> {
         prompt += `  * **Code fixes**: When user reports syntax errors, bugs, or needs code corrections\n`;
         prompt += `  * **Content transformation**: Translate, summarize, analyze, rewrite, extract\n`;
         prompt += `  * **Processing user input**: When user provides content that needs to be modified\n`;
-        prompt += `- Use "process_image" for visual content creation or editing:\n`;
-        prompt += `  * **Generation**: Create diagrams, charts, illustrations, concept visualizations\n`;
-        prompt += `  * **Editing**: Modify existing images - change colors, add elements, improve quality, style transfer\n`;
-        prompt += `  * **Enhancement**: Improve image quality, lighting, clarity of existing images\n`;
-        prompt += `- Use "generate_speech" for text-to-speech conversion:\n`;
-        prompt += `  * **Explicit requests**: When user asks to "read aloud", "create audio", "generate voice", etc.\n`;
-        prompt += `  * **Audio narration**: Convert written content to spoken narration\n`;
-        prompt += `  * **Voice generation**: Create audio versions of text content\n`;
-        prompt += `  * **NOT for**: General text processing, analysis, or non-audio tasks\n`;
+        if (imageEnabled) {
+            prompt += `- Use "process_image" for visual content creation or editing:\n`;
+            prompt += `  * **Generation**: Create diagrams, charts, illustrations, concept visualizations\n`;
+            prompt += `  * **Editing**: Modify existing images - change colors, add elements, improve quality, style transfer\n`;
+            prompt += `  * **Enhancement**: Improve image quality, lighting, clarity of existing images\n`;
+        }
+        if (speechEnabled) {
+            prompt += `- Use "generate_speech" for text-to-speech conversion:\n`;
+            prompt += `  * **Explicit requests**: When user asks to "read aloud", "create audio", "generate voice", etc.\n`;
+            prompt += `  * **Audio narration**: Convert written content to spoken narration\n`;
+            prompt += `  * **Voice generation**: Create audio versions of text content\n`;
+            prompt += `  * **NOT for**: General text processing, analysis, or non-audio tasks\n`;
+        }
         prompt += `- Use "complete" when the user's request has been fully accomplished AND no content processing is needed\n`;
         prompt += `- **CRITICAL**: Reference history IDs exactly as shown in brackets [like-this] - copy the EXACT ID including prefixes\n`;
         prompt += `- **EFFICIENCY PRIORITY**: With ${remainingSteps} steps remaining, maximize work per step\n`;
@@ -478,6 +570,39 @@ export class ReActReasoningNode extends Node<AgentSharedState> {
         return prompt;
     }
 
+    /**
+     * Digest each history result for the prompt, spending the budget on the newest results first
+     */
+    private getResultDigests(history: ActionResult[]): string[] {
+        const latestStep = Math.max(...history.map(action => action.step));
+        const digests: string[] = new Array(history.length);
+        let budget = MAX_HISTORY_PROMPT_CHARS;
+
+        for (let i = history.length - 1; i >= 0; i--) {
+            const action = history[i];
+            const allowance = action.step === latestStep ? RECENT_RESULT_CHARS : OLDER_RESULT_CHARS;
+            const maxChars = Math.max(MIN_RESULT_CHARS, Math.min(allowance, budget));
+            digests[i] = digestResult(action.result, maxChars);
+            budget -= digests[i].length;
+        }
+
+        return digests;
+    }
+
+    /**
+     * Recall memories relevant to the request; memory failures never stop the run
+     */
+    private async recallMemories(memory: AgentMemory, userRequest: string): Promise<AgentMemoryEntry[]> {
+        try {
+            const memories = await memory.recall(userRequest, MAX_RECALLED_MEMORIES);
+            console.log(`🧠 Recalled ${memories.length} memories`);
+            return memories;
+        } catch (error) {
+            console.warn('⚠️ Failed to recall memories:', error);
+            return [];
+        }
+    }
+
     private extractYouTubeURL(text: string): string {
         // Extract YouTube URL from text
         const youtubeUrlPattern = /(?:youtube\.com\/watch\?v=|youtu\.be\/)([a-zA-Z0-9_-]+)/;
@@ -547,27 +672,43 @@ export class ReActReasoningNode extends Node<AgentSharedState> {
         return experience;
     }
 
-    private getReasoningSchema(): any {
+    /**
+     * Decisions the model may take; an agent profile can turn off the media decisions
+     */
+    private getDecisions(state: AgentSharedState): ReasoningResponse['decision'][] {
+        const decisions: ReasoningResponse['decision'][] = ['continue', 'llm_processing', 'process_image', 'generate_speech', 'complete'];
+        return decisions.filter(decision => isDecisionEnabled(state.profile, decision));
+    }
+
+    private getReasoningSchema(state: AgentSharedState): any {
+        const actionSchema = {
+            "type": "object", 
+            "properties": {
+                "server": {"type": "string"},
+                "tool": {"type": "string"},
+                "parameters": {"type": "object"},
+                "justification": {"type": "string"}
+            },
+            "required": ["server", "tool", "parameters", "justification"]
+        };
+
         return {
             "type": "object",
             "properties": {
-                "reasoning": {"type": "string"},
-                "decision": {"type": "string", "enum": ["continue", "complete", "llm_processing", "process_image", "generate_speech"]},
-                "goalStatus": {"type": "string"},
-                "action": {
-                    "type": "object", 
-                    "properties": {
-                        "server": {"type": "string"},
-                        "tool": {"type": "string"},
-                        "parameters": {"type": "object"},
-                        "justification": {"type": "string"}
-                    },
-                    "required": ["server", "tool", "parameters", "justification"]
+                "reasoning": {"type": "string", "minLength": 1},
+                "decision": {"type": "string", "enum": this.getDecisions(state)},
+                "goalStatus": {"type": "string", "minLength": 1},
+                "action": actionSchema,
+                "actions": {
+                    "type": "array",
+                    "items": actionSchema,
+                    "minItems": 1,
+                    "maxItems": MAX_ACTIONS_PER_STEP
                 },
-                "llmTask": {"type": "string"},
-                "llmPrompt": {"type": "string"},
-                "inputHistoryId": {"type": "string"},
-                "imagePrompt": {"type": "string"},
+                "llmTask": {"type": "string", "minLength": 1},
+                "llmPrompt": {"type": "string", "minLength": 1},
+                "inputHistoryId": {"type": "string", "minLength": 1},
+                "imagePrompt": {"type": "string", "minLength": 1},
                 "imageConfig": {
                     "type": "object",
                     "properties": {
@@ -576,7 +717,23 @@ export class ReActReasoningNode extends Node<AgentSharedState> {
                         "safetyFilterLevel": {"type": "string", "enum": ["BLOCK_MOST", "BLOCK_SOME", "BLOCK_FEW", "BLOCK_NONE"]}
                     }
                 },
-                "ttsText": {"type": "string"},
+                "planUpdates": {
+                    "type": "array",
+                    "items": {
+                        "type": "object",
+                        "properties": {
+                            "id": {"type": "integer"},
+                            "status": {"type": "string", "enum": ["done", "failed", "skipped"]}
+                        },
+                        "required": ["id", "status"]
+                    }
+                },
+                "revisedPlan": {
+                    "type": "array",
+                    "items": {"type": "string", "minLength": 1},
+                    "maxItems": MAX_PLAN_ITEMS
+                },
+                "ttsText": {"type": "string", "minLength": 1},
                 "ttsConfig": {
                     "type": "object",
                     "properties": {
@@ -588,7 +745,7 @@ export class ReActReasoningNode extends Node<AgentSharedState> {
             "allOf": [
                 {
                     "if": {"properties": {"decision": {"const": "continue"}}},
-                    "then": {"required": ["action"]}
+                    "then": {"anyOf": [{"required": ["action"]}, {"required": ["actions"]}]}
                 },
                 {
                     "if": {"properties": {"decision": {"const": "llm_processing"}}},
@@ -0,0 +1,186 @@
+import { Node } from "pocketflow";
+import { AgentSharedState, LLMProvider, AgentProgressEvent, ReflectionResponse } from '../types';
+import { digestResult } from '../../utils/historyUtils';
+
+/**
+ * Prompt budget (characters) for the results the reviewer sees
+ */
+const MAX_REVIEW_RESULT_CHARS = 2000;
+const MAX_REVIEW_PROMPT_CHARS = 24000;
+
+interface ReflectionPrepData {
+    prompt: string;
+    currentStep: number;
+    model?: string;
+}
+
+/**
+ * Node for self-critique before the final summary
+ * Following PocketFlow TypeScript SDK patterns with built-in retry logic
+ *
+ * When the reasoning node decides the task is complete, a reviewer checks the
+ * original request against the gathered results. Approval goes on to
+ * summarization; otherwise the gaps it found send the flow back to reasoning.
+ * Runs at most maxReflections times per run, and never when the run was stopped
+ * by its step limit or budget (there is no room left to fix anything).
+ */
+export class ReflectionNode extends Node<AgentSharedState> {
+    constructor(
+        private llmProvider: LLMProvider,
+        maxRetries: number = 2,
+        waitTime: number = 1
+    ) {
+        super(maxRetries, waitTime);
+    }
+
+    async prep(shared: AgentSharedState): Promise<ReflectionPrepData | null> {
+        // Check for cancellation before processing - graceful early exit
+        if (shared.cancelled) {
+            console.log('🛑 Reflection node prep: Operation was cancelled, skipping reflection');
+            return null;
+        }
+
+        const currentStep = shared.currentStep || 0;
+        if (!shared.maxReflections
+            || (shared.reflectionCount || 0) >= shared.maxReflections
+            || shared.budgetExceeded
+            || currentStep >= (shared.maxSteps || 10)) {
+            return null; // Reflection off, used up, or no steps left to act on it
+        }
+
+        console.log(`🔍 Reviewing the answer before summarizing (round ${(shared.reflectionCount || 0) + 1}/${shared.maxReflections})`);
+        return {
+            prompt: this.buildReflectionPrompt(shared),
+            currentStep,
+            model: shared.modelConfig?.reasoning
+        };
+    }
+
+    async exec(prepData: ReflectionPrepData | null): Promise<ReflectionResponse | null> {
+        if (!prepData) {
+            return null;
+        }
+
+        const response: ReflectionResponse = await this.llmProvider.callLLMWithSchema(prepData.prompt, this.getReflectionSchema(), prepData.model);
+        console.log(`🔍 Reflection: ${response.approved ? 'approved' : `${response.gaps?.length || 0} gaps found`} - ${response.assessment}`);
+        return response;
+    }
+
+    async post(
+        shared: AgentSharedState,
+        prepData: ReflectionPrepData | null,
+        reflection: ReflectionResponse | null
+    ): Promise<string | undefined> {
+        if (!prepData || !reflection) {
+            return "approve"; // Skipped or failed - summarize what we have
+        }
+
+        const gaps = (reflection.gaps || []).filter(gap => gap.trim());
+        const approved = reflection.approved || gaps.length === 0;
+        shared.reflectionCount = (shared.reflectionCount || 0) + 1;
+        shared.reflectionGaps = approved ? undefined : gaps;
+
+        this.emitProgress(shared, 'reflection_complete', {
+            approved,
+            assessment: reflection.assessment,
+            gaps,
+            round: shared.reflectionCount,
+            maxRounds: shared.maxReflections
+        }, prepData.currentStep);
+
+        if (approved) {
+            return "approve";
+        }
+
+        console.log(`🔁 Sending the run back to reasoning to address: ${gaps.join('; ')}`);
+        shared.goalStatus = `Revising after self-critique: ${gaps.length} gap(s) found`;
+        return "revise";
+    }
+
+    /**
+     * Fallback method when reflection fails
+     * Following PocketFlow execFallback pattern - the answer is summarized unreviewed
+     */
+    async execFallback(_: ReflectionPrepData | null, error: Error): Promise<ReflectionResponse | null> {
+        console.warn(`⚠️ Reflection failed, summarizing without review: ${error.message}`);
+        return null;
+    }
+
+    private buildReflectionPrompt(state: AgentSharedState): string {
+        const history = (state.actionHistory || []).filter(action => action.stepType !== 'user_input');
+
+        let prompt = `You are reviewing an agent's work before its final answer is written.\n\n`;
+        prompt += `## Original Request:\n${state.userRequest}\n\n`;
+
+        if (state.conversationContext) {
+            prompt += `## Conversation So Far:\n${state.conversationContext}\n\n`;
+        }
+
+        prompt += `## Agent's Assessment:\n`;
+        prompt += `The agent decided the task is complete.\n`;
+        prompt += `- Reasoning: ${state.currentReasoning || '(none)'}\n`;
+        prompt += `- Goal status: ${state.goalStatus || '(none)'}\n\n`;
+
+        prompt += `## Results Gathered:\n`;
+        if (history.length === 0) {
+            prompt += `No tools were used.\n\n`;
+        }
+        // Newest results first, so the budget keeps the latest work
+        let used = 0;
+        const entries: string[] = [];
+        for (const action of [...history].reverse()) {
+            const entry = `[${action.historyId}] Step ${action.step}: ${action.tool} (${action.server}) - ${action.success ? 'SUCCESS' : 'FAILED'}\n${digestResult(action.result, MAX_REVIEW_RESULT_CHARS)}\n\n`;
+            if (used + entry.length > MAX_REVIEW_PROMPT_CHARS) {
+                entries.push(`(${history.length - entries.length} earlier results omitted)\n\n`);
+                break;
+            }
+            used += entry.length;
+            entries.push(entry);
+        }
+        prompt += entries.reverse().join('');
+
+        const media = [...(state.generatedImagePaths || []), ...(state.generatedAudioPaths || [])];
+        if (media.length > 0) {
+            prompt += `## Generated Files:\n${media.map(path => `- ${path}`).join('\n')}\n\n`;
+        }
+
+        prompt += `## Your Task:\n`;
+        prompt += `Check whether these results are enough to write a complete, correct answer to the original request.\n`;
+        prompt += `- Check every part of the request (each question, item, format or file asked for)\n`;
+        prompt += `- Check that claims in the assessment are backed by the results, and that failed steps were recovered\n`;
+        prompt += `- Approve when the answer can be written from these results; do not ask for polish or extras the user did not request\n`;
+        prompt += `Respond with JSON: "approved" (boolean), "assessment" (one or two sentences) and, when not approved, "gaps": specific, actionable things still missing (e.g. "The second URL was never fetched").\n`;
+
+        return prompt;
+    }
+
+    private getReflectionSchema(): any {
+        return {
+            "type": "object",
+            "properties": {
+                "approved": {"type": "boolean"},
+                "assessment": {"type": "string", "minLength": 1},
+                "gaps": {
+                    "type": "array",
+                    "items": {"type": "string", "minLength": 1},
+                    "maxItems": 5
+                }
+            },
+            "required": ["approved", "assessment"]
+        };
+    }
+
+    /**
+     * Emit progress event to callback if available
+     */
+    private emitProgress(state: AgentSharedState, type: AgentProgressEvent['type'], data: any, step: number) {
+        if (state.progressCallback) {
+            state.progressCallback({
+                type,
+                step,
+                data,
+                timestamp: Date.now()
+            });
+        }
+    }
+}
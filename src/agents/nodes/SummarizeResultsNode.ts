@@ -1,5 +1,6 @@
 import { Node } from "pocketflow";
 import { AgentSharedState, LLMProvider } from '../types';
+import { formatProfilePreamble } from '../../utils/profileUtils';
 
 /**
  * Node for summarizing and finalizing ReAct agent results
@@ -71,6 +72,11 @@ export class SummarizeResultsNode extends Node<AgentSharedState> {
             // Store them in shared state for retrieval
         }
         
+        // Tell the user why the run stopped before the task was finished
+        if (shared.budgetExceeded) {
+            finalResult = `> ⚠️ **Stopped early**: the ${shared.budgetExceeded}.\n\n${finalResult}`;
+        }
+        
         // Update shared state with final result
         Object.assign(shared, {
             finalResult: finalResult
@@ -101,6 +107,7 @@ export class SummarizeResultsNode extends Node<AgentSharedState> {
         
         let prompt = `# Task Summary Request\n\n`;
         prompt += `**Original User Request:** ${userRequest}\n\n`;
+        prompt += formatProfilePreamble(state.profile);
         
         if (actionHistory.length > 0) {
             prompt += `## Actions Taken (${actionHistory.length} actions in ${totalSteps} steps):\n\n`;
@@ -115,6 +122,10 @@ export class SummarizeResultsNode extends Node<AgentSharedState> {
             prompt += `## Actions Taken:\nNo tools were used. Response based on available knowledge.\n\n`;
         }
         
+        if (state.budgetExceeded) {
+            prompt += `## Run Stopped Early:\nThe agent was stopped before finishing because the ${state.budgetExceeded}. Say clearly which parts of the request are still open.\n\n`;
+        }
+        
         prompt += `## Summary Instructions:\n`;
         prompt += `Please provide a comprehensive but concise response to the user's original request based on the above information. `;
         prompt += `Focus on answering their question directly and clearly. If actions were taken, incorporate the results. `;
@@ -0,0 +1,54 @@
+import { Node } from "pocketflow";
+import { AgentSharedState, MCPTool, ToolRanker } from '../types';
+import { MAX_UNRANKED_TOOLS, ToolIndex } from '../../utils/toolRankingUtils';
+
+/**
+ * Node for indexing a large tool catalog after discovery
+ * Following PocketFlow TypeScript SDK patterns
+ *
+ * When more tools are discovered than fit comfortably in a prompt, builds a BM25
+ * index over them; the planning and reasoning prompts then list only the tools
+ * most relevant to the request and the current reasoning (plus tools already
+ * used), and the model can search the rest with the built-in list_tools tool.
+ */
+export class ToolRetrievalNode extends Node<AgentSharedState> {
+    constructor(maxRetries: number = 1, waitTime: number = 1) {
+        super(maxRetries, waitTime);
+    }
+
+    async prep(shared: AgentSharedState): Promise<MCPTool[] | null> {
+        const tools = shared.availableTools || [];
+        if (shared.cancelled || tools.length <= MAX_UNRANKED_TOOLS) {
+            return null; // Small catalogs are listed in full
+        }
+        return tools;
+    }
+
+    async exec(tools: MCPTool[] | null): Promise<ToolRanker | null> {
+        if (!tools) {
+            return null;
+        }
+
+        const index = new ToolIndex(tools);
+        console.log(`🗂️ Indexed ${index.size} tools for relevance ranking`);
+        return index;
+    }
+
+    async post(
+        shared: AgentSharedState,
+        _: MCPTool[] | null,
+        index: ToolRanker | null
+    ): Promise<string | undefined> {
+        shared.toolIndex = index || undefined;
+        return "default";
+    }
+
+    /**
+     * Fallback method when indexing fails
+     * Following PocketFlow execFallback pattern - the prompts list every tool
+     */
+    async execFallback(_: MCPTool[] | null, error: Error): Promise<ToolRanker | null> {
+        console.warn(`⚠️ Tool indexing failed, listing all tools: ${error.message}`);
+        return null;
+    }
+}
@@ -2,16 +2,72 @@
  * TypeScript type definitions for the ReAct Agent system
  */
 
+import { AgentBudget, ModelCapabilities, TokenUsage } from '../core/types';
+import { UsageListener } from '../utils/usageUtils';
+
 // Progress event system for real-time updates
 export interface AgentProgressEvent {
-    type: 'step_start' | 'step_complete' | 'action_start' | 'action_complete' | 'reasoning_complete' | 'final_result';
+    type: 'step_start' | 'step_complete' | 'action_start' | 'action_complete' | 'reasoning_complete' | 'chunk_progress' | 'plan_updated' | 'reflection_complete' | 'final_result';
     step: number;
     data: any;
     timestamp: number;
+    usage?: TokenUsage; // Cumulative token usage of the run so far
 }
 
 export type ProgressCallback = (event: AgentProgressEvent) => void;
 
+// Human-in-the-loop approval of tool calls
+export interface ToolApprovalRequest {
+    server: string;
+    tool: string;
+    parameters: Record<string, any>;
+    justification: string;
+    step: number;
+}
+
+export interface ToolApprovalDecision {
+    approved: boolean;
+    reason?: string; // Why the call was rejected, fed back to the model
+}
+
+export type ToolApprovalHandler = (request: ToolApprovalRequest, signal?: AbortSignal) => Promise<ToolApprovalDecision>;
+
+// Plan-and-execute mode
+export type PlanItemStatus = 'pending' | 'done' | 'failed' | 'skipped';
+
+export interface PlanItem {
+    id: number;
+    description: string;
+    status: PlanItemStatus;
+}
+
+export interface PlanItemUpdate {
+    id: number;
+    status: Exclude<PlanItemStatus, 'pending'>;
+}
+
+/**
+ * Shows the plan to the user for editing; resolves with the plan to run, or null to cancel the run
+ */
+export type PlanEditHandler = (plan: PlanItem[], signal?: AbortSignal) => Promise<PlanItem[] | null>;
+
+// Long-term memory kept across agent runs
+export interface AgentMemoryEntry {
+    id: string; // Stable name used to forget the memory (the note name for vault memories)
+    content: string;
+    tags?: string[];
+    updatedAt: number;
+}
+
+/**
+ * Store for facts the agent keeps between runs (preferences, vault layout, conventions)
+ */
+export interface AgentMemory {
+    remember(content: string, tags?: string[]): Promise<AgentMemoryEntry>;
+    recall(query: string, limit?: number): Promise<AgentMemoryEntry[]>;
+    forget(id: string): Promise<boolean>;
+}
+
 // Generated media assets
 export interface GeneratedImage {
     id: string;
@@ -52,20 +108,43 @@ export interface ImageGenerationConfig {
 
 export interface AgentSharedState {
     // Input
+    runId?: string; // ID of the persisted run snapshot (see AgentRunStore)
+    runCreatedAt?: number; // When the run first started (kept across resumes)
     userRequest?: string;
+    conversationContext?: string; // Transcript of earlier turns in the local conversation
     
     // Tool Discovery
     availableTools?: MCPTool[];
     toolsByServer?: Record<string, MCPTool[]>;
     toolServerMap?: Record<string, string>;
+    toolIndex?: ToolRanker; // Set when the catalog is too large to list in full; prompts show a ranked shortlist
+    listedToolKeys?: string[]; // Tools found with list_tools ("server/tool"), kept in the reasoning prompt's shortlist
     
     // ReAct Process
     currentStep?: number;
     maxSteps?: number;
     actionHistory?: ActionResult[];
     currentReasoning?: string;
+    reasoningHistory?: ReasoningTraceEntry[]; // Reasoning of every step so far, for the run trace
     goalStatus?: string;
-    nextAction?: ActionDecision;
+    
+    // Plan-and-execute
+    planningEnabled?: boolean; // Draft an explicit plan before the first reasoning step
+    plan?: PlanItem[]; // Ordered plan the reasoning node works through and ticks off
+    editPlan?: PlanEditHandler; // Lets the user edit the plan before execution; missing means run it as drafted
+    nextActions?: ActionDecision[]; // Tool calls for the action node to run this step (concurrently)
+
+    // Agent profile
+    profile?: AgentProfile; // Prompt preamble, tool allow-list and enabled media decisions; missing means the default agent
+
+    // Long-term memory
+    memory?: AgentMemory; // Missing means memory is disabled
+    recalledMemories?: AgentMemoryEntry[]; // Memories relevant to the request, recalled at step 1
+
+    // Self-critique
+    maxReflections?: number; // Reviews allowed before the final summary; 0 or missing means no review
+    reflectionCount?: number;
+    reflectionGaps?: string[]; // What the last review found missing, for the reasoning node to address
     
     // LLM Processing
     nextLLMRequest?: LLMProcessingRequest;
@@ -73,6 +152,10 @@ export interface AgentSharedState {
     // Progress Tracking
     startTime?: number;
     progressCallback?: ProgressCallback;
+    approveToolCall?: ToolApprovalHandler; // Approval gate for tool calls; missing means every call is allowed
+    usage?: TokenUsage; // Aggregated token usage and cost of every LLM call in this run
+    budget?: AgentBudget; // Token, cost and time limits, enforced by the reasoning node
+    budgetExceeded?: string; // Which budget ran out, when the run was stopped early
     
     // Cancellation Support
     abortSignal?: AbortSignal;
@@ -106,6 +189,34 @@ export interface AgentSharedState {
     finalResult?: string;
 }
 
+export type AgentRunStatus = 'running' | 'completed' | 'cancelled' | 'failed';
+
+/**
+ * Serializable part of AgentSharedState, saved after every node so a run can be resumed
+ */
+export interface AgentRunSnapshot {
+    id: string;
+    status: AgentRunStatus;
+    createdAt: number;
+    updatedAt: number;
+    userRequest: string;
+    conversationContext?: string;
+    currentStep: number;
+    maxSteps: number;
+    actionHistory: ActionResult[];
+    reasoningHistory?: ReasoningTraceEntry[];
+    plan?: PlanItem[];
+    recalledMemories?: AgentMemoryEntry[];
+    listedToolKeys?: string[];
+    reflectionCount?: number;
+    reflectionGaps?: string[];
+    profile?: AgentProfile;
+    modelConfig?: ModelConfig;
+    generatedImagePaths?: string[];
+    generatedAudioPaths?: string[];
+    usage?: TokenUsage;
+}
+
 export interface MCPTool {
     name: string;
     description: string;
@@ -115,6 +226,53 @@ export interface MCPTool {
     serverName?: string;
 }
 
+/**
+ * Why a tool call failed:
+ * - tool_error: the tool ran and reported an error
+ * - transport: the server could not be reached or the connection dropped
+ * - timeout: the call took longer than the tool timeout
+ * - cancelled: the user cancelled the run
+ * - validation: the parameters did not match the tool's input schema
+ * - permission: the approval gate refused the call
+ */
+export type ActionErrorKind = 'tool_error' | 'transport' | 'timeout' | 'cancelled' | 'validation' | 'permission';
+
+export interface ActionError {
+    kind: ActionErrorKind;
+    message: string;
+    retryable: boolean; // Whether repeating the same call may succeed
+}
+
+/**
+ * Reasoning decisions that produce media; an agent profile can turn them off
+ */
+export type AgentMediaDecision = 'process_image' | 'generate_speech';
+
+/**
+ * Named agent configuration loaded from a profile note (see AgentProfileStore)
+ * Missing fields fall back to the plugin settings
+ */
+export interface AgentProfile {
+    id: string; // Note name
+    name: string;
+    description?: string;
+    systemPrompt?: string; // Note body, added to the planning, reasoning and summary prompts
+    servers?: string[]; // Allowed tool servers; missing means all
+    tools?: string[]; // Allowed tools as "server/tool" or tool name; missing means every tool of the allowed servers
+    reasoningModel?: string;
+    processingModel?: string;
+    maxSteps?: number;
+    mediaDecisions?: AgentMediaDecision[]; // Enabled media decisions; missing means all
+}
+
+/**
+ * Relevance ranking over the tool catalog (see ToolIndex)
+ */
+export interface ToolRanker {
+    readonly size: number;
+    search(query: string, limit?: number): MCPTool[];
+}
+
 export interface ActionResult {
     step: number;
     stepType: 'action' | 'llm_processing' | 'user_input';  // New: distinguish step types
@@ -125,6 +283,40 @@ export interface ActionResult {
     justification: string;
     success: boolean;
     historyId: string;  // New: unique identifier for referencing
+    timestamp?: number; // When the step finished
+    durationMs?: number; // How long the tool call took, including retries
+    validationErrors?: string[]; // Schema violations when the call was rejected before being sent
+    error?: ActionError; // Set for failed tool calls
+}
+
+/**
+ * Reasoning of one ReAct step, kept for the run trace
+ */
+export interface ReasoningTraceEntry {
+    step: number;
+    reasoning: string;
+    decision: ReasoningResponse['decision'];
+    goalStatus: string;
+    timestamp: number;
+}
+
+/**
+ * Everything an agent run did, for exporting as a note
+ */
+export interface AgentRunTrace {
+    runId?: string;
+    userRequest: string;
+    status: AgentRunStatus;
+    startTime: number;
+    endTime: number;
+    maxSteps: number;
+    reasoningHistory: ReasoningTraceEntry[];
+    actionHistory: ActionResult[];
+    plan?: PlanItem[];
+    generatedImagePaths?: string[];
+    generatedAudioPaths?: string[];
+    usage?: TokenUsage;
+    finalResult: string;
 }
 
 export interface ActionDecision {
@@ -134,24 +326,42 @@ export interface ActionDecision {
     justification: string;
 }
 
-export interface ReasoningResponse {
+interface ReasoningResponseBase {
     reasoning: string;
-    decision: 'continue' | 'complete' | 'llm_processing' | 'process_image' | 'generate_speech';  // NEW: Added generate_speech
     action?: ActionDecision;
+    actions?: ActionDecision[];  // Independent tool calls to run in parallel within one step
+    planUpdates?: PlanItemUpdate[];  // Plan items finished (or abandoned) as of this step
+    revisedPlan?: string[];  // Replacement for the unfinished plan items, e.g. after a failed step
     goalStatus: string;
-    
-    // LLM processing fields
-    llmTask?: string;           // Task identifier (translate, summarize, etc.)
-    llmPrompt?: string;         // Crafted prompt for LLM
-    inputHistoryId?: string;    // Reference to specific history entry
-    
-    // Image processing fields (generation + editing)
-    imagePrompt?: string;       // Prompt for image generation or editing instructions
-    imageConfig?: ImageGenerationConfig;
-    
-    // TTS processing fields
-    ttsText?: string;           // Text to convert to speech
-    ttsConfig?: TTSConfig;      // TTS configuration
+}
+
+/**
+ * Reasoning step result, one variant per decision
+ * The reasoning schema requires each decision's fields, so narrowing on `decision` is safe
+ */
+export type ReasoningResponse =
+    | ReasoningResponseBase & { decision: 'continue' | 'complete' }
+    | ReasoningResponseBase & {
+        decision: 'llm_processing';
+        llmTask: string;           // Task identifier (translate, summarize, etc.)
+        llmPrompt: string;         // Crafted prompt for LLM
+        inputHistoryId: string;    // Reference to specific history entry
+    }
+    | ReasoningResponseBase & {
+        decision: 'process_image';  // Image generation + editing
+        imagePrompt: string;       // Prompt for image generation or editing instructions
+        imageConfig?: ImageGenerationConfig;
+    }
+    | ReasoningResponseBase & {
+        decision: 'generate_speech';
+        ttsText: string;           // Text to convert to speech
+        ttsConfig?: TTSConfig;     // TTS configuration
+    };
+
+export interface ReflectionResponse {
+    approved: boolean;
+    assessment: string;
+    gaps?: string[];  // What is still missing when not approved
 }
 
 export interface LLMProcessingRequest {
@@ -167,10 +377,62 @@ export interface ModelConfig {
     default: string;
 }
 
+// Message-based chat request for providers with a native chat API
+export interface ProviderMessage {
+    role: 'system' | 'user' | 'assistant' | 'tool';
+    content: string;
+    images?: string[]; // Data URLs or absolute file paths
+    toolCalls?: ProviderToolCall[]; // Assistant messages: tools the model asked to call
+    toolCallId?: string; // Tool messages: ID of the call this result answers
+}
+
+// Function call requested by the model (native function calling)
+export interface ProviderToolCall {
+    id: string;
+    name: string;
+    arguments: Record<string, any>;
+}
+
+export interface ProviderChatRequest {
+    messages: ProviderMessage[];
+    model?: string;
+    jsonMode?: boolean;
+    signal?: AbortSignal;
+    onToken?: (token: string) => void; // Stream tokens as they arrive (when supported)
+    tools?: any[]; // Function definitions in OpenAI format (see MCPToolRegistry.getToolsForLLM)
+}
+
+export interface ProviderChatResponse {
+    content: string;
+    model: string; // Model that actually produced the response
+    toolCalls?: ProviderToolCall[]; // Present when the model wants tools run before answering
+    usage?: TokenUsage;
+}
+
 // LLM Provider interface for dependency injection
 export interface LLMProvider {
     callLLM(prompt: string, model?: string, system?: string): Promise<string>;
     callLLMWithSchema(prompt: string, schema: any, model?: string, system?: string): Promise<any>;
+    chat?(request: ProviderChatRequest): Promise<ProviderChatResponse>; // Optional: native chat API
+    addUsageListener?(listener: UsageListener): () => void; // Optional: token usage of each call, returns unsubscribe
+    getCapabilities?(model?: string): ModelCapabilities | undefined; // Optional: capability metadata of a model
+}
+
+// Recorded LLM call, written by RecordingProvider and served back by ReplayProvider
+export interface LLMFixtureEntry {
+    method: 'callLLM' | 'callLLMWithSchema' | 'chat';
+    key: string; // Hash of method, model and normalized inputs (see buildFixtureKey)
+    model?: string;
+    input: Record<string, any>; // Prompt, system and schema, or chat messages - kept readable for debugging
+    output: any; // string for callLLM, parsed JSON for callLLMWithSchema, ProviderChatResponse for chat
+    usage?: TokenUsage; // Usage reported during the call, replayed to usage listeners
+    error?: string; // Replayed as a thrown error instead of the output (scripted failures)
+}
+
+export interface LLMFixture {
+    version: 1;
+    recordedAt: number;
+    entries: LLMFixtureEntry[];
 }
 
 // MCP Client interface for dependency injection  
@@ -171,6 +171,12 @@ export class LLMPlugin extends Plugin {
             this.activateView();
         });
 
+        this.addCommand({
+            id: 'resume-agent-run',
+            name: 'Resume last agent run',
+            callback: () => this.resumeAgentRun()
+        });
+
         if (this.app.workspace.layoutReady) {
             this.initLeaf();
         } else {
@@ -212,6 +218,26 @@ export class LLMPlugin extends Plugin {
         }
     }
 
+    /**
+     * Resume the most recent unfinished agent run in the LLM view
+     */
+    private async resumeAgentRun() {
+        let leaves = this.app.workspace.getLeavesOfType('llm-view');
+        if (leaves.length === 0) {
+            await this.activateView();
+            leaves = this.app.workspace.getLeavesOfType('llm-view');
+        }
+
+        const view = leaves.length > 0 ? leaves[0].view as LLMView : null;
+        if (!view) {
+            new Notice('LLM view not found');
+            return;
+        }
+
+        this.app.workspace.revealLeaf(leaves[0]);
+        await view.resumeAgentRun();
+    }
+
     async activateView() {
         this.app.workspace.detachLeavesOfType('llm-view');
 
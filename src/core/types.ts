@@ -1,5 +1,7 @@
 // Core type definitions for the LLM Plugin
 
+import { ActionErrorKind, AgentRunTrace } from '../agents/types';
+
 // Processing Mode System
 export enum ProcessingMode {
     CHAT = 'chat',
@@ -11,12 +13,76 @@ export interface ParsedCommand {
     mode: ProcessingMode | null; // null means use UI selected mode
     cleanPrompt: string; // prompt with command prefix removed
     originalPrompt: string;
+    agentBudget?: AgentBudget; // Budget flags given after /agent (e.g. --max-tokens 50000)
+    agentProfile?: string; // Profile named in /agent:<profile>
+}
+
+// Per-run limits for Agent mode; missing or 0 means unlimited
+export interface AgentBudget {
+    maxTokens?: number; // Total tokens of all LLM calls in the run
+    maxCostUsd?: number; // Estimated cost (needs pricing for the agent models)
+    maxDurationSeconds?: number; // Wall-clock time since the run started
 }
 
 // Model Configuration Types
 export interface ModelDefinition {
     id: string;
     label: string;
+    provider?: string; // Provider ID from settings.providers (defaults to the LLM Connector backend)
+    model?: string; // Model name sent to the provider (defaults to id)
+    fallbacks?: string[]; // Model IDs to try in order when this model fails with 429/5xx
+    capabilities?: ModelCapabilities; // Omitted capabilities are assumed to be supported
+}
+
+// What a model can do; used to gate attachments, JSON mode, tools and model pickers
+export interface ModelCapabilities {
+    vision?: boolean; // Accepts image input
+    jsonMode?: boolean; // Supports structured (JSON) output - required for agent reasoning/processing
+    toolCalling?: boolean; // Supports native function calling
+    contextWindow?: number; // Max input tokens
+    maxOutputTokens?: number; // Max tokens the model may generate per response
+}
+
+// Capabilities of the default models (LLM Connector IDs), used when their definitions declare none
+export const DEFAULT_MODEL_CAPABILITIES: Record<string, ModelCapabilities> = {
+    'g25fp': { contextWindow: 1048576, maxOutputTokens: 65536 },
+    'g25fl': { contextWindow: 1048576, maxOutputTokens: 65536 },
+    'g25f': { contextWindow: 1048576, maxOutputTokens: 65536 },
+    'g25p': { contextWindow: 1048576, maxOutputTokens: 65536 },
+    'k2': { contextWindow: 131072, maxOutputTokens: 16384 },
+    'gpt-4o': { contextWindow: 128000, maxOutputTokens: 16384 },
+    'gpt-4.1': { contextWindow: 1047576, maxOutputTokens: 32768 },
+    'sv3': { contextWindow: 64000, maxOutputTokens: 8192 },
+    'sr1': { contextWindow: 64000, maxOutputTokens: 32768 }
+};
+
+// Per-model pricing, keyed by model ID (or provider model name) in settings.modelPricing
+export interface ModelPricing {
+    inputPerMillion: number; // USD per 1M prompt tokens
+    outputPerMillion: number; // USD per 1M completion tokens
+}
+
+// Token usage for one LLM call or aggregated over a request/agent run
+export interface TokenUsage {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+    cost?: number; // USD, only when pricing is configured for every model involved
+    estimated?: boolean; // True when any count was estimated because the provider reported none
+    model?: string; // Model that produced the usage (single calls only)
+    calls?: number; // Number of LLM calls aggregated
+}
+
+// LLM Provider Configuration Types
+export type LLMProviderType = 'openai-compatible';
+
+export interface LLMProviderConfig {
+    id: string;
+    type: LLMProviderType;
+    label?: string;
+    baseUrl: string; // e.g. https://api.openai.com/v1 or http://localhost:11434/v1
+    apiKey: string;
+    headers?: Record<string, string>; // Extra headers required by some gateways
 }
 
 export interface AgentModelConfig {
@@ -41,6 +107,15 @@ export interface MCPServerConfig {
     httpUrl?: string; // Optional HTTP URL for servers that support HTTP transport
 }
 
+// Approval policy for agent tool calls: run, ask the user first, or refuse
+export type ToolApprovalPolicy = 'allow' | 'ask' | 'deny';
+
+export interface ToolApprovalSettings {
+    defaultPolicy: ToolApprovalPolicy;
+    servers: Record<string, ToolApprovalPolicy>; // Keyed by MCP server ID
+    tools: Record<string, ToolApprovalPolicy>; // Keyed by "server/tool" or tool name; overrides the server policy
+}
+
 export interface LLMPluginSettings {
     llmConnectorApiUrl: string;
     llmConnectorApiKey: string;
@@ -65,9 +140,21 @@ export interface LLMPluginSettings {
     showModeSelector: boolean;
     // Agent Settings
     agentMaxSteps: number;
+    toolApproval?: ToolApprovalSettings; // Missing means every agent tool call is allowed, except vault writes and forget (ask)
+    agentBudget?: AgentBudget; // Default per-run limits (tokens, cost, time)
+    agentPlanMode: boolean; // Draft an editable plan before the agent starts acting
+    agentMaxReflections: number; // Self-critique rounds before the final answer (0 disables)
+    agentVaultTools: boolean; // Offer the built-in vault tools (search, read, write notes) to the agent
+    agentMemoryEnabled: boolean; // Let the agent remember facts between runs
+    agentMemoryFolder: string; // Vault folder for memory notes
+    agentProfileFolder: string; // Vault folder for agent profile notes
+    exportAgentTraces: boolean; // Write a trace note for every agent run
+    agentTraceFolder: string; // Vault folder for trace notes
     // Model Configuration (NEW)
+    providers: LLMProviderConfig[];
     models?: ModelDefinition[];
     agentModels?: ModelDefinition[];
+    modelPricing?: Record<string, ModelPricing>; // Pricing table used for cost accounting
     agentModelConfig?: AgentModelConfig;
 }
 
@@ -94,7 +181,17 @@ export const DEFAULT_SETTINGS: LLMPluginSettings = {
     defaultMode: ProcessingMode.CHAT,
     showModeSelector: true,
     // Agent Defaults
-    agentMaxSteps: 20
+    agentMaxSteps: 20,
+    agentPlanMode: false,
+    agentMaxReflections: 0,
+    agentVaultTools: true,
+    agentMemoryEnabled: true,
+    agentMemoryFolder: 'Agent Memory',
+    agentProfileFolder: 'Agent Profiles',
+    exportAgentTraces: false,
+    agentTraceFolder: 'Agent Runs',
+    // Provider Defaults (models without a provider use the LLM Connector backend)
+    providers: []
 };
 
 export interface FileWithPath extends File {
@@ -107,6 +204,27 @@ export interface ChatMessage {
     content: string;
     timestamp: Date;
     images?: string[];
+    usage?: TokenUsage;
+    model?: string; // Model that produced an assistant message
+}
+
+// Message kept in the local conversation store (see ConversationStore)
+export interface ConversationMessage {
+    role: 'user' | 'assistant';
+    content: string;
+    timestamp: number;
+    mode?: ProcessingMode;
+    model?: string; // Model that produced an assistant message
+    usage?: TokenUsage;
+}
+
+// Conversation persisted in the plugin data folder, independent of the backend conversation ID
+export interface Conversation {
+    id: string;
+    title: string;
+    createdAt: number;
+    updatedAt: number;
+    messages: ConversationMessage[];
 }
 
 export interface LLMRequest {
@@ -118,6 +236,10 @@ export interface LLMRequest {
     conversationId?: string;
     tools?: MCPTool[]; // Available MCP tools for LLM function calling
     signal?: AbortSignal; // Optional signal for request cancellation
+    onToken?: (token: string) => void; // Optional callback to stream chat mode tokens
+    history?: ConversationMessage[]; // Earlier turns of the local conversation, oldest first
+    agentBudget?: AgentBudget; // Overrides the settings' agent budget for this request
+    agentProfile?: string; // Agent profile to run (note name or profile name); missing runs the default agent
 }
 
 export interface LLMResponse {
@@ -126,6 +248,9 @@ export interface LLMResponse {
     error?: string;
     images?: string[]; // Base64-encoded generated images
     toolCalls?: MCPToolCall[]; // Tools LLM decided to call
+    usage?: TokenUsage; // Token usage (and cost) of all LLM calls made for this request
+    model?: string; // Model that actually answered (differs from the request after a fallback)
+    agentTrace?: AgentRunTrace; // What the agent did, in Agent mode
 }
 
 export interface Command {
@@ -168,6 +293,7 @@ export interface MCPToolResult {
     success: boolean;
     content: string | any[];
     error?: string;
+    errorKind?: ActionErrorKind; // Why the call failed, when known
 }
 
 export interface MCPServerConnection {
@@ -0,0 +1,66 @@
+import { MCPClient, MCPTool } from '../agents/types';
+import { ScenarioTool, ScenarioToolResponse } from './types';
+import { ToolCallError } from '../utils/actionErrorUtils';
+
+/**
+ * Fake MCP client for agent scenarios
+ *
+ * Offers the scenario's tools and answers every call with a canned result, so a
+ * flow runs without MCP servers. Calls are recorded in order for the scenario's
+ * tool expectations.
+ */
+export class ScenarioMCPClient implements MCPClient {
+    private calls: Array<{ server: string; tool: string; parameters: Record<string, any> }> = [];
+
+    constructor(private tools: ScenarioTool[] = []) {}
+
+    async getAllTools(): Promise<Record<string, MCPTool[]>> {
+        const toolsByServer: Record<string, MCPTool[]> = {};
+        for (const tool of this.tools) {
+            if (!toolsByServer[tool.server]) {
+                toolsByServer[tool.server] = [];
+            }
+            toolsByServer[tool.server].push({
+                name: tool.name,
+                description: tool.description,
+                inputSchema: tool.inputSchema || { type: 'object', properties: {} },
+                server: tool.server
+            });
+        }
+        return toolsByServer;
+    }
+
+    async callTool(serverName: string, toolName: string, parameters: Record<string, any>, signal?: AbortSignal): Promise<string> {
+        if (signal?.aborted) {
+            throw new DOMException('Operation was cancelled', 'AbortError');
+        }
+
+        this.calls.push({ server: serverName, tool: toolName, parameters });
+
+        const tool = this.tools.find(t => t.server === serverName && t.name === toolName);
+        if (!tool) {
+            throw new ToolCallError('tool_error', `Unknown tool ${toolName} on server ${serverName}`);
+        }
+
+        const response = tool.responses.find(r => this.matches(r, parameters));
+        if (!response) {
+            throw new ToolCallError('tool_error', `No canned result of ${toolName} matches ${JSON.stringify(parameters)}`);
+        }
+        if (response.error) {
+            throw new ToolCallError(response.errorKind || 'tool_error', response.error);
+        }
+        return response.output || '';
+    }
+
+    /**
+     * Calls received so far, in order
+     */
+    getCalls(): Array<{ server: string; tool: string; parameters: Record<string, any> }> {
+        return this.calls;
+    }
+
+    private matches(response: ScenarioToolResponse, parameters: Record<string, any>): boolean {
+        return Object.entries(response.match || {})
+            .every(([name, value]) => JSON.stringify(parameters?.[name]) === JSON.stringify(value));
+    }
+}
@@ -0,0 +1,114 @@
+import { LLMProvider, ModelConfig } from '../agents/types';
+import { AgentScenario, ScenarioResult } from './types';
+import { ReActFlow } from '../agents/ReActFlow';
+import { RecordingProvider } from '../agents/RecordingProvider';
+import { ReplayProvider } from '../agents/ReplayProvider';
+import { ScenarioMCPClient } from './ScenarioMCPClient';
+import { buildScenarioFixture, checkExpectations } from './scenarioUtils';
+import { mapWithConcurrency } from '../utils/concurrencyUtils';
+
+export interface ScenarioRunnerOptions {
+    provider?: LLMProvider; // Real LLM provider for scenarios without scripted answers (or with `model` set)
+    model?: string; // Run every scenario on this real model instead of its scripted answers
+    concurrency?: number; // Scenarios run at once (default 1)
+    recordDir?: string; // Folder for fixtures of real-model runs, one per scenario (see RecordingProvider)
+}
+
+/**
+ * Runs agent evaluation scenarios headless
+ *
+ * Each scenario runs a fresh ReActFlow against a fake MCP client with canned tool
+ * results, answered by its scripted LLM responses (through ReplayProvider) or by a
+ * real model. The run's decisions, tool calls and final result are then checked
+ * against the scenario's expectations. With scripted answers, answers left unused
+ * fail the scenario too - the flow took a different route than the script.
+ * Real-model runs can be recorded to fixtures for offline replay with ReplayProvider.
+ */
+export class ScenarioRunner {
+    constructor(private options: ScenarioRunnerOptions = {}) {}
+
+    /**
+     * Run scenarios and return their results in scenario order
+     */
+    async runAll(scenarios: AgentScenario[]): Promise<ScenarioResult[]> {
+        return mapWithConcurrency(scenarios, Math.max(1, this.options.concurrency || 1), scenario => this.run(scenario));
+    }
+
+    /**
+     * Run one scenario; errors are reported as failures, never thrown
+     */
+    async run(scenario: AgentScenario): Promise<ScenarioResult> {
+        const startTime = Date.now();
+        const mcpClient = new ScenarioMCPClient(scenario.tools);
+        const observed: Pick<ScenarioResult, 'decisions' | 'toolCalls' | 'steps' | 'result'> = { decisions: [], toolCalls: [], steps: 0, result: '' };
+        let failures: string[] = [];
+        let recorder: RecordingProvider | undefined;
+
+        try {
+            const { provider, model, replay, recording } = this.createProvider(scenario);
+            recorder = recording;
+            const modelConfig: ModelConfig = { reasoning: model, processing: model, default: model };
+
+            // No Gemini key and no plugin data path: media nodes are off and no run snapshots are written
+            const flow = new ReActFlow(provider, mcpClient, modelConfig, '');
+            flow.setPlanningEnabled(!!scenario.planning);
+            flow.setMaxReflections(scenario.maxReflections || 0);
+            if (scenario.profile) {
+                flow.setProfile({ id: 'scenario', name: scenario.name, ...scenario.profile });
+            }
+
+            const agentResult = await flow.execute(scenario.request, scenario.maxSteps || scenario.profile?.maxSteps || 10, undefined, scenario.conversationContext, scenario.budget);
+            const trace = agentResult.trace;
+
+            observed.decisions = trace?.reasoningHistory.map(entry => entry.decision) || [];
+            observed.steps = trace?.reasoningHistory.length || 0;
+            observed.result = agentResult.result;
+            observed.toolCalls = mcpClient.getCalls().map(call => `${call.server}/${call.tool}`);
+
+            failures = checkExpectations(scenario.expect, observed);
+            if (trace && trace.status !== 'completed') {
+                failures.unshift(`run ${trace.status}`);
+            }
+            const unused = replay?.getRemainingCount() || 0;
+            if (unused > 0) {
+                failures.push(`llm: ${unused} scripted response(s) were not used`);
+            }
+        } catch (error) {
+            failures.push(`run error: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        await recorder?.flush();
+
+        return {
+            name: scenario.name,
+            passed: failures.length === 0,
+            failures,
+            ...observed,
+            durationMs: Date.now() - startTime
+        };
+    }
+
+    /**
+     * Scripted answers unless a real model is asked for (by the options or by a scenario without a script)
+     */
+    private createProvider(scenario: AgentScenario): { provider: LLMProvider; model: string; replay?: ReplayProvider; recording?: RecordingProvider } {
+        const responses = scenario.llm?.responses;
+        const model = this.options.model || (responses ? undefined : scenario.llm?.model);
+
+        if (model) {
+            if (!this.options.provider) {
+                throw new Error(`Scenario needs the real model "${model}" but no LLM provider settings were given`);
+            }
+            if (!this.options.recordDir) {
+                return { provider: this.options.provider, model };
+            }
+            const recording = new RecordingProvider(this.options.provider, `${this.options.recordDir}/${scenario.name.replace(/[^\w-]+/g, '-')}.json`);
+            return { provider: recording, model, recording };
+        }
+
+        if (!responses) {
+            throw new Error('Scenario has no scripted LLM responses and no model');
+        }
+        const replay = new ReplayProvider(buildScenarioFixture(responses, scenario.llm?.tokensPerCall));
+        return { provider: replay, model: 'scripted', replay };
+    }
+}
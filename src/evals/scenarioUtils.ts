@@ -0,0 +1,140 @@
+/**
+ * Utility functions for agent evaluation scenarios
+ * Loading scenario files, turning scripted answers into a replay fixture,
+ * checking expectations and formatting the pass/fail report
+ */
+
+import { LLMFixture } from '../agents/types';
+import { AgentScenario, ScenarioExpectations, ScenarioLLMFailure, ScenarioLLMResponse, ScenarioResult } from './types';
+
+/**
+ * Load scenarios from JSON files; folders are searched for *.json files (not recursively)
+ * A file holds one scenario or an array of them
+ */
+export async function loadScenarios(paths: string[]): Promise<AgentScenario[]> {
+    const fs = require('fs').promises;
+    const path = require('path');
+    const scenarios: AgentScenario[] = [];
+
+    for (const target of paths) {
+        const stat = await fs.stat(target);
+        const files: string[] = stat.isDirectory()
+            ? (await fs.readdir(target)).filter((name: string) => name.endsWith('.json')).sort().map((name: string) => path.join(target, name))
+            : [target];
+
+        for (const file of files) {
+            const content = JSON.parse(await fs.readFile(file, 'utf-8'));
+            for (const scenario of Array.isArray(content) ? content : [content]) {
+                if (!scenario?.name || !scenario.request || !scenario.expect) {
+                    throw new Error(`Invalid scenario in ${file}: "name", "request" and "expect" are required`);
+                }
+                scenarios.push(scenario);
+            }
+        }
+    }
+
+    return scenarios;
+}
+
+/**
+ * Turn scripted answers into a fixture for ReplayProvider
+ * The entries have no key, so every call is served the next answer of its method in order;
+ * with tokensPerCall, each answer reports that many (prompt) tokens of usage
+ */
+export function buildScenarioFixture(responses: ScenarioLLMResponse[], tokensPerCall?: number): LLMFixture {
+    return {
+        version: 1,
+        recordedAt: 0,
+        entries: responses.map(response => {
+            const failure = isScenarioFailure(response) ? response : undefined;
+            return {
+                method: typeof response === 'string' || (failure && !failure.schema) ? 'callLLM' as const : 'callLLMWithSchema' as const,
+                key: '',
+                input: {},
+                output: failure ? undefined : response,
+                usage: tokensPerCall ? { promptTokens: tokensPerCall, completionTokens: 0, totalTokens: tokensPerCall } : undefined,
+                error: failure?.error
+            };
+        })
+    };
+}
+
+/**
+ * Check a run against the scenario's expectations; returns the failed checks
+ */
+export function checkExpectations(
+    expect: ScenarioExpectations,
+    run: Pick<ScenarioResult, 'decisions' | 'toolCalls' | 'steps' | 'result'>
+): string[] {
+    const failures: string[] = [];
+    const result = run.result.toLowerCase();
+
+    if (expect.decisions && JSON.stringify(expect.decisions) !== JSON.stringify(run.decisions)) {
+        failures.push(`decisions: expected [${expect.decisions.join(', ')}], got [${run.decisions.join(', ')}]`);
+    }
+
+    if (expect.toolsCalled) {
+        // In order, but other calls may come between
+        let next = 0;
+        for (const call of run.toolCalls) {
+            if (next < expect.toolsCalled.length && matchesTool(call, expect.toolsCalled[next])) {
+                next++;
+            }
+        }
+        if (next < expect.toolsCalled.length) {
+            failures.push(`toolsCalled: expected [${expect.toolsCalled.join(', ')}] in order, got [${run.toolCalls.join(', ')}]`);
+        }
+    }
+
+    for (const tool of expect.toolsNotCalled || []) {
+        if (run.toolCalls.some(call => matchesTool(call, tool))) {
+            failures.push(`toolsNotCalled: ${tool} was called`);
+        }
+    }
+
+    for (const text of expect.resultContains || []) {
+        if (!result.includes(text.toLowerCase())) {
+            failures.push(`resultContains: "${text}" not in the final result`);
+        }
+    }
+
+    for (const text of expect.resultNotContains || []) {
+        if (result.includes(text.toLowerCase())) {
+            failures.push(`resultNotContains: "${text}" is in the final result`);
+        }
+    }
+
+    if (expect.maxSteps !== undefined && run.steps > expect.maxSteps) {
+        failures.push(`maxSteps: took ${run.steps} steps, expected at most ${expect.maxSteps}`);
+    }
+
+    return failures;
+}
+
+/**
+ * Format results as a plain-text report, one line per scenario plus its failures
+ */
+export function formatEvalReport(results: ScenarioResult[]): string {
+    const lines = results.map(result => {
+        const summary = `${result.passed ? '✅ PASS' : '❌ FAIL'} ${result.name} (${result.steps} steps, ${(result.durationMs / 1000).toFixed(1)}s)`;
+        return [summary, ...result.failures.map(failure => `    - ${failure}`)].join('\n');
+    });
+    const passed = results.filter(result => result.passed).length;
+    lines.push('', `${passed}/${results.length} scenarios passed`);
+    return lines.join('\n');
+}
+
+/**
+ * A scripted failure is an object with only "error" (and "schema")
+ */
+function isScenarioFailure(response: ScenarioLLMResponse): response is ScenarioLLMFailure {
+    return typeof response === 'object' && typeof response.error === 'string'
+        && Object.keys(response).every(key => key === 'error' || key === 'schema');
+}
+
+/**
+ * "server/tool" matches exactly; a bare tool name matches that tool on any server
+ */
+function matchesTool(call: string, expected: string): boolean {
+    return expected.includes('/') ? call === expected : call.split('/').pop() === expected;
+}
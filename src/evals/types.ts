@@ -0,0 +1,84 @@
+import { ActionErrorKind, AgentProfile, ReasoningResponse } from '../agents/types';
+import { AgentBudget } from '../core/types';
+
+/**
+ * Scripted LLM failure: the call throws with this message
+ * Fails a plain call (callLLM), or a schema call with `schema: true`
+ */
+export interface ScenarioLLMFailure {
+    error: string;
+    schema?: boolean;
+}
+
+/**
+ * Scripted LLM answer in a scenario: a string answers callLLM, an object answers
+ * callLLMWithSchema (e.g. a reasoning response), a ScenarioLLMFailure fails a call;
+ * answers are served in call order
+ */
+export type ScenarioLLMResponse = string | ScenarioLLMFailure | Record<string, any>;
+
+/**
+ * Canned tool result; the first response whose "match" fits the call's parameters is used
+ */
+export interface ScenarioToolResponse {
+    match?: Record<string, any>; // Parameters the call must have, with these values; missing matches every call
+    output?: string;
+    error?: string; // Fail the call with this message instead
+    errorKind?: ActionErrorKind; // Kind of the failure (default tool_error)
+}
+
+export interface ScenarioTool {
+    server: string;
+    name: string;
+    description: string;
+    inputSchema?: any;
+    responses: ScenarioToolResponse[];
+}
+
+/**
+ * What a scenario run must do; every listed check has to pass
+ */
+export interface ScenarioExpectations {
+    decisions?: ReasoningResponse['decision'][]; // Exact sequence of reasoning decisions
+    toolsCalled?: string[]; // Calls in this order ("server/tool" or tool name); other calls may come between
+    toolsNotCalled?: string[];
+    resultContains?: string[]; // Case-insensitive
+    resultNotContains?: string[];
+    maxSteps?: number; // Most reasoning steps the run may take
+}
+
+/**
+ * Agent evaluation scenario, loaded from a JSON file (see ScenarioRunner)
+ */
+export interface AgentScenario {
+    name: string;
+    description?: string;
+    request: string;
+    conversationContext?: string;
+    maxSteps?: number; // Default 10
+    planning?: boolean; // Run the planning node first
+    maxReflections?: number; // Self-critique rounds (default 0)
+    budget?: AgentBudget; // Token, cost and time limits of the run
+    profile?: Partial<AgentProfile>; // Agent profile of the run (tool allow-list, media decisions, preamble)
+    llm?: {
+        responses?: ScenarioLLMResponse[]; // Scripted answers; leave out to run a real model
+        tokensPerCall?: number; // Token usage reported for each scripted answer, for budget scenarios
+        model?: string; // Real model to run (needs provider settings)
+    };
+    tools?: ScenarioTool[]; // Tools of the fake MCP client, with canned results
+    expect: ScenarioExpectations;
+}
+
+/**
+ * Outcome of one scenario run
+ */
+export interface ScenarioResult {
+    name: string;
+    passed: boolean;
+    failures: string[]; // Failed checks, empty when passed
+    decisions: ReasoningResponse['decision'][];
+    toolCalls: string[]; // "server/tool" of every call sent to the fake MCP client
+    steps: number;
+    result: string;
+    durationMs: number;
+}
@@ -0,0 +1,109 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { AgentMemory, AgentMemoryEntry } from '../agents/types';
+import { buildMemoryId, rankMemories } from '../utils/memoryUtils';
+import { stripFrontmatter } from '../utils/frontmatterUtils';
+
+/**
+ * Vault store for the agent's long-term memory
+ * Each memory is a note in the memory folder: the body is the memory and the
+ * frontmatter holds its tags. Notes added or edited by hand in the folder are
+ * memories too, so the user can review and correct what the agent keeps.
+ */
+export class AgentMemoryStore implements AgentMemory {
+    constructor(
+        private app: App,
+        private getFolder: () => string
+    ) {}
+
+    /**
+     * Load every memory in the folder, most recently updated first
+     */
+    async list(): Promise<AgentMemoryEntry[]> {
+        const memories: AgentMemoryEntry[] = [];
+        for (const file of this.getMemoryFiles()) {
+            const content = stripFrontmatter(await this.app.vault.cachedRead(file)).trim();
+            if (content) {
+                memories.push({
+                    id: file.basename,
+                    content,
+                    tags: this.getTags(file),
+                    updatedAt: file.stat.mtime
+                });
+            }
+        }
+        return memories.sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    /**
+     * Save a new memory as a note; the note name comes from its first words
+     */
+    async remember(content: string, tags: string[] = []): Promise<AgentMemoryEntry> {
+        const text = content.trim();
+        if (!text) {
+            throw new Error('Memory content is empty');
+        }
+
+        const folder = this.getFolderPath();
+        if (!this.app.vault.getAbstractFileByPath(folder)) {
+            await this.app.vault.createFolder(folder);
+        }
+
+        const baseId = buildMemoryId(text);
+        let id = baseId;
+        for (let n = 2; this.app.vault.getAbstractFileByPath(`${folder}/${id}.md`); n++) {
+            id = `${baseId} ${n}`;
+        }
+
+        const cleanTags = tags.map(tag => String(tag).replace(/^#/, '').trim()).filter(Boolean);
+        const frontmatter = [
+            '---',
+            'type: agent-memory',
+            ...(cleanTags.length > 0 ? [`tags: [${cleanTags.map(tag => JSON.stringify(tag)).join(', ')}]`] : []),
+            '---',
+            ''
+        ].join('\n');
+
+        await this.app.vault.create(`${folder}/${id}.md`, `${frontmatter}${text}\n`);
+        console.log(`🧠 AgentMemoryStore: Remembered "${id}"`);
+        return { id, content: text, tags: cleanTags, updatedAt: Date.now() };
+    }
+
+    /**
+     * Find the memories most relevant to a query
+     */
+    async recall(query: string, limit?: number): Promise<AgentMemoryEntry[]> {
+        return rankMemories(await this.list(), query, limit);
+    }
+
+    /**
+     * Delete a memory note (to the trash configured in Obsidian); false if there is no such memory
+     */
+    async forget(id: string): Promise<boolean> {
+        const target = id.trim().replace(/\.md$/, '').toLowerCase();
+        const file = this.getMemoryFiles().find(f => f.basename.toLowerCase() === target);
+        if (!file) {
+            return false;
+        }
+
+        await this.app.fileManager.trashFile(file);
+        console.log(`🧠 AgentMemoryStore: Forgot "${file.basename}"`);
+        return true;
+    }
+
+    private getFolderPath(): string {
+        return normalizePath(this.getFolder() || 'Agent Memory');
+    }
+
+    private getMemoryFiles(): TFile[] {
+        const prefix = `${this.getFolderPath()}/`;
+        return this.app.vault.getMarkdownFiles().filter(file => file.path.startsWith(prefix));
+    }
+
+    private getTags(file: TFile): string[] | undefined {
+        const tags = this.app.metadataCache.getFileCache(file)?.frontmatter?.tags;
+        if (!tags) {
+            return undefined;
+        }
+        return (Array.isArray(tags) ? tags : String(tags).split(',')).map(tag => String(tag).trim()).filter(Boolean);
+    }
+}
@@ -0,0 +1,39 @@
+import { App, TFile, normalizePath } from 'obsidian';
+import { AgentProfile } from '../agents/types';
+import { parseAgentProfile } from '../utils/profileUtils';
+import { stripFrontmatter } from '../utils/frontmatterUtils';
+
+/**
+ * Vault store for agent profiles
+ * Each note in the profile folder is a profile: the frontmatter sets its tools,
+ * models, step limit and media decisions, and the body is its prompt preamble.
+ * Profiles are read on every run, so edits apply to the next message.
+ */
+export class AgentProfileStore {
+    constructor(
+        private app: App,
+        private getFolder: () => string
+    ) {}
+
+    /**
+     * Load every profile in the folder, sorted by name
+     */
+    async list(): Promise<AgentProfile[]> {
+        const profiles: AgentProfile[] = [];
+        for (const file of this.getProfileFiles()) {
+            const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter || {};
+            const body = stripFrontmatter(await this.app.vault.cachedRead(file));
+            profiles.push(parseAgentProfile(file.basename, frontmatter, body));
+        }
+        return profiles.sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    private getFolderPath(): string {
+        return normalizePath(this.getFolder() || 'Agent Profiles');
+    }
+
+    private getProfileFiles(): TFile[] {
+        const prefix = `${this.getFolderPath()}/`;
+        return this.app.vault.getMarkdownFiles().filter(file => file.path.startsWith(prefix));
+    }
+}
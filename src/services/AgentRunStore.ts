@@ -0,0 +1,142 @@
+import { AgentRunSnapshot } from '../agents/types';
+import { joinPath } from '../utils/pathUtils';
+
+/**
+ * Unfinished (failed or cancelled) runs kept for resuming; older ones are deleted
+ */
+const MAX_UNFINISHED_RUNS = 10;
+
+/**
+ * Local store for agent run snapshots
+ * Keeps the serializable state of each ReAct run as a JSON file in the plugin's
+ * runs folder, so tool results survive a reload or cancellation and the run can
+ * be resumed where it stopped. A completed run has nothing left to resume, so its
+ * snapshot is deleted; only the latest MAX_UNFINISHED_RUNS unfinished runs are kept.
+ */
+export class AgentRunStore {
+    private runsDir: string;
+
+    constructor(pluginDir: string) {
+        this.runsDir = joinPath(pluginDir, 'runs');
+    }
+
+    /**
+     * Load a run snapshot by ID, or undefined if it does not exist or cannot be read
+     */
+    async load(id: string): Promise<AgentRunSnapshot | undefined> {
+        const fs = require('fs').promises;
+        try {
+            const content = await fs.readFile(this.getRunPath(id), 'utf-8');
+            return JSON.parse(content) as AgentRunSnapshot;
+        } catch (error) {
+            if (error.code !== 'ENOENT') {
+                console.warn(`⚠️ AgentRunStore: Failed to load run ${id}:`, error);
+            }
+            return undefined;
+        }
+    }
+
+    /**
+     * List stored runs, most recently updated first
+     */
+    async list(): Promise<AgentRunSnapshot[]> {
+        const runs: AgentRunSnapshot[] = [];
+        for (const id of await this.listRunIds()) {
+            const run = await this.load(id);
+            if (run) {
+                runs.push(run);
+            }
+        }
+        return runs;
+    }
+
+    /**
+     * Get the most recently updated run that did not complete
+     * Runs still marked 'running' were interrupted by a reload or crash.
+     * Snapshots are read newest first (by file time) until one qualifies
+     */
+    async getLatestResumable(): Promise<AgentRunSnapshot | undefined> {
+        for (const id of await this.listRunIds()) {
+            const run = await this.load(id);
+            if (run && run.status !== 'completed') {
+                return run;
+            }
+        }
+        return undefined;
+    }
+
+    /**
+     * Write a run snapshot to disk; a completed run's snapshot is deleted instead
+     */
+    async save(snapshot: AgentRunSnapshot): Promise<void> {
+        if (snapshot.status === 'completed') {
+            await this.delete(snapshot.id);
+            return;
+        }
+
+        const fs = require('fs').promises;
+        await fs.mkdir(this.runsDir, { recursive: true });
+        await fs.writeFile(this.getRunPath(snapshot.id), JSON.stringify(snapshot), 'utf-8');
+
+        if (snapshot.status !== 'running') {
+            await this.prune();
+        }
+    }
+
+    /**
+     * Delete all but the latest MAX_UNFINISHED_RUNS snapshots
+     */
+    async prune(): Promise<void> {
+        const staleIds = (await this.listRunIds()).slice(MAX_UNFINISHED_RUNS);
+        for (const id of staleIds) {
+            await this.delete(id);
+        }
+        if (staleIds.length > 0) {
+            console.log(`🧹 AgentRunStore: Deleted ${staleIds.length} old run(s)`);
+        }
+    }
+
+    /**
+     * Delete a stored run
+     */
+    async delete(id: string): Promise<void> {
+        const fs = require('fs').promises;
+        try {
+            await fs.unlink(this.getRunPath(id));
+        } catch (error) {
+            if (error.code !== 'ENOENT') {
+                throw error;
+            }
+        }
+    }
+
+    /**
+     * IDs of stored runs, most recently written first
+     */
+    private async listRunIds(): Promise<string[]> {
+        const fs = require('fs').promises;
+        let files: string[];
+        try {
+            files = (await fs.readdir(this.runsDir)).filter((file: string) => file.endsWith('.json'));
+        } catch (error) {
+            return []; // Folder is created on first save
+        }
+
+        const runs: { id: string; modified: number }[] = [];
+        for (const file of files) {
+            try {
+                const stat = await fs.stat(joinPath(this.runsDir, file));
+                runs.push({ id: file.slice(0, -'.json'.length), modified: stat.mtimeMs });
+            } catch (error) {
+                // Deleted since the listing
+            }
+        }
+        return runs.sort((a, b) => b.modified - a.modified).map(run => run.id);
+    }
+
+    private getRunPath(id: string): string {
+        // IDs are generated by ReActFlow, but never let one escape the folder
+        const safeId = id.replace(/[^a-zA-Z0-9_-]/g, '_');
+        return joinPath(this.runsDir, `${safeId}.json`);
+    }
+}
@@ -1,13 +1,27 @@
 import { LLMRequest, LLMResponse, LLMPluginSettings } from '../core/types';
 import { MCPClientService } from './MCPClientService';
 import { ReActFlow } from '../agents/ReActFlow';
-import { LLMWilsonProvider } from '../agents/LLMWilsonProvider';
+import { LLMProviderRegistry } from '../agents/LLMProviderRegistry';
 import { MCPClientAdapter } from '../agents/MCPClientAdapter';
-import { ModelConfig, ProgressCallback } from '../agents/types';
+import { VaultToolProvider, VAULT_SERVER, VAULT_WRITE_TOOLS } from '../agents/VaultToolProvider';
+import { AgentMemoryStore } from './AgentMemoryStore';
+import { AgentProfileStore } from './AgentProfileStore';
+import { AgentProfile, ModelConfig, PlanEditHandler, ProgressCallback, ToolApprovalDecision, ToolApprovalHandler, ToolApprovalRequest } from '../agents/types';
+import { formatTranscript, trimHistory } from '../utils/conversationUtils';
+import { resolveToolPolicy } from '../utils/toolPolicyUtils';
+import { mergeBudgets } from '../utils/budgetUtils';
+import { findAgentProfile } from '../utils/profileUtils';
+import { INTERNAL_SERVER } from '../utils/historyUtils';
+import { FORGET_TOOL } from '../utils/memoryUtils';
 import { spawn, ChildProcess } from 'child_process';
 import * as path from 'path';
 import * as fs from 'fs';
 
+/**
+ * Token budget for earlier conversation turns given to the agent as context
+ */
+const AGENT_HISTORY_TOKENS = 4000;
+
 /**
  * Agentic LLM Service using TypeScript ReAct Agent
  * 
@@ -20,8 +34,12 @@ export class AgenticLLMService {
     private mcpClientService?: MCPClientService;
     private reActFlow?: ReActFlow;
     private agentPath: string;
+    private providerRegistry: LLMProviderRegistry;
+    private memoryStore?: AgentMemoryStore;
+    private profileStore?: AgentProfileStore;
 
-    constructor(private settings: LLMPluginSettings) {
+    constructor(private settings: LLMPluginSettings, providerRegistry?: LLMProviderRegistry) {
+        this.providerRegistry = providerRegistry || new LLMProviderRegistry(settings);
         // Path to the ReAct agent implementation
         this.agentPath = this.getAgentPath();
     }
@@ -44,14 +62,18 @@ export class AgenticLLMService {
         }
 
         try {
-            // Create LLM provider using FastAPI wrapper
-            const llmProvider = new LLMWilsonProvider(
-                this.settings.llmConnectorApiUrl || 'http://localhost:49153',
-                this.settings.llmConnectorApiKey || 'your_api_key'
-            );
+            // Route agent LLM calls through the provider registry (per-model provider selection)
+            const llmProvider = this.providerRegistry;
             
-            // Create MCP client adapter
-            const mcpClient = new MCPClientAdapter(this.mcpClientService);
+            // Create MCP client adapter, with the built-in vault tools alongside MCP servers
+            const vaultTools = new VaultToolProvider(this.mcpClientService.getApp(), () => this.settings.agentVaultTools);
+            const mcpClient = new MCPClientAdapter(this.mcpClientService, vaultTools);
+
+            // Long-term memory lives in a vault folder
+            this.memoryStore = new AgentMemoryStore(this.mcpClientService.getApp(), () => this.settings.agentMemoryFolder);
+
+            // Agent profiles are notes in a vault folder
+            this.profileStore = new AgentProfileStore(this.mcpClientService.getApp(), () => this.settings.agentProfileFolder);
             
             // Create model configuration using agent model config
             const modelConfig: ModelConfig = this.createModelConfig();
@@ -66,6 +88,10 @@ export class AgenticLLMService {
             const pluginDataPath = this.getPluginDataPath();
             
             this.reActFlow = new ReActFlow(llmProvider, mcpClient, modelConfig, geminiApiKey, pluginDataPath);
+            this.reActFlow.setToolApprovalHandler((request, signal) => this.checkToolApproval(request, signal));
+            if (this.planEditHandler) {
+                this.reActFlow.setPlanEditHandler(this.planEditHandler);
+            }
             
             console.log('✅ TypeScript ReAct Flow initialized successfully');
         } catch (error) {
@@ -85,6 +111,51 @@ export class AgenticLLMService {
 
     private progressCallback?: ProgressCallback;
 
+    /**
+     * Set the handler that asks the user about tool calls with an "ask" policy
+     */
+    setToolApprovalHandler(handler: ToolApprovalHandler) {
+        this.toolApprovalHandler = handler;
+    }
+
+    private toolApprovalHandler?: ToolApprovalHandler;
+
+    /**
+     * Set the handler that lets the user edit the agent's plan before execution
+     */
+    setPlanEditHandler(handler: PlanEditHandler) {
+        this.planEditHandler = handler;
+        if (this.reActFlow) {
+            this.reActFlow.setPlanEditHandler(handler);
+        }
+    }
+
+    private planEditHandler?: PlanEditHandler;
+
+    /**
+     * Apply the configured approval policy to an agent tool call
+     * Settings are read on every call so policy changes apply to running sessions
+     */
+    private async checkToolApproval(request: ToolApprovalRequest, signal?: AbortSignal): Promise<ToolApprovalDecision> {
+        // Vault writes and deleting memories change the vault, so they ask unless configured
+        const isVaultWrite = request.server === VAULT_SERVER && VAULT_WRITE_TOOLS.includes(request.tool);
+        const isForget = request.server === INTERNAL_SERVER && request.tool === FORGET_TOOL;
+        const policy = resolveToolPolicy(this.settings.toolApproval, request.server, request.tool, isVaultWrite || isForget ? 'ask' : undefined);
+
+        switch (policy) {
+            case 'allow':
+                return { approved: true };
+            case 'deny':
+                return { approved: false, reason: 'denied by tool approval policy' };
+            case 'ask':
+                if (!this.toolApprovalHandler) {
+                    return { approved: false, reason: 'requires approval, but no approval prompt is available' };
+                }
+                console.log(`⏸️ Waiting for approval: ${request.tool} (${request.server})`);
+                return await this.toolApprovalHandler(request, signal);
+        }
+    }
+
     /**
      * Send request to agentic system (always use PocketFlow ReAct in Agent mode)
      */
@@ -134,17 +205,34 @@ export class AgenticLLMService {
             if (this.progressCallback) {
                 this.reActFlow.setProgressCallback(this.progressCallback);
             }
+            this.reActFlow.setPlanningEnabled(this.settings.agentPlanMode);
+            this.reActFlow.setMemory(this.settings.agentMemoryEnabled ? this.memoryStore : undefined);
+            this.reActFlow.setMaxReflections(this.settings.agentMaxReflections);
+
+            // The profile picks the run's prompt preamble, tools, models and step limit
+            const profile = request.agentProfile ? await this.getAgentProfile(request.agentProfile) : undefined;
+            this.reActFlow.setProfile(profile);
 
             // Determine max steps based on request complexity
-            const maxSteps = this.getMaxStepsForRequest(request);
+            const maxSteps = profile?.maxSteps || this.getMaxStepsForRequest(request);
             
             // Execute the TypeScript ReAct Agent
-            const agentResult = await this.reActFlow.execute(request.prompt, maxSteps, request.signal);
+            // Earlier turns of the local conversation let follow-up requests refer back
+            const conversationContext = request.history && request.history.length > 0
+                ? formatTranscript(trimHistory(request.history, AGENT_HISTORY_TOKENS))
+                : undefined;
+
+            // Per-request budget flags override the configured limits
+            const budget = mergeBudgets(this.settings.agentBudget, request.agentBudget);
+
+            const agentResult = await this.reActFlow.execute(request.prompt, maxSteps, request.signal, conversationContext, budget);
 
             return {
                 result: agentResult.result,
                 images: agentResult.images,
-                conversationId: request.conversationId
+                conversationId: request.conversationId,
+                usage: agentResult.usage,
+                agentTrace: agentResult.trace
             };
 
         } catch (error) {
@@ -156,6 +244,64 @@ export class AgenticLLMService {
         }
     }
 
+    /**
+     * List the agent profiles in the profiles folder
+     */
+    async listAgentProfiles(): Promise<AgentProfile[]> {
+        return this.profileStore ? await this.profileStore.list() : [];
+    }
+
+    /**
+     * Load a profile by note name or profile name
+     */
+    private async getAgentProfile(ref: string): Promise<AgentProfile> {
+        const profiles = await this.listAgentProfiles();
+        const profile = findAgentProfile(profiles, ref);
+        if (!profile) {
+            const available = profiles.length > 0 ? `Available profiles: ${profiles.map(p => p.id).join(', ')}` : `No profiles found in "${this.settings.agentProfileFolder}"`;
+            throw new Error(`Unknown agent profile "${ref}". ${available}`);
+        }
+        console.log(`🎭 Using agent profile: ${profile.name}`);
+        return profile;
+    }
+
+    /**
+     * Resume the most recent agent run that was cancelled or interrupted
+     */
+    async resumeAgentRun(signal?: AbortSignal): Promise<LLMResponse> {
+        try {
+            if (!this.reActFlow) {
+                return {
+                    result: '',
+                    error: 'TypeScript ReAct Agent not initialized - cannot resume agent runs'
+                };
+            }
+
+            if (this.progressCallback) {
+                this.reActFlow.setProgressCallback(this.progressCallback);
+            }
+            this.reActFlow.setPlanningEnabled(this.settings.agentPlanMode);
+            this.reActFlow.setMemory(this.settings.agentMemoryEnabled ? this.memoryStore : undefined);
+            this.reActFlow.setMaxReflections(this.settings.agentMaxReflections);
+
+            const agentResult = await this.reActFlow.resume(undefined, signal, this.settings.agentBudget);
+
+            return {
+                result: agentResult.result,
+                images: agentResult.images,
+                usage: agentResult.usage,
+                agentTrace: agentResult.trace
+            };
+
+        } catch (error) {
+            console.error('❌ Failed to resume agent run:', error);
+            return {
+                result: '',
+                error: error instanceof Error ? error.message : 'Failed to resume agent run'
+            };
+        }
+    }
+
     /**
      * Get maximum steps from settings
      */
@@ -166,15 +312,19 @@ export class AgenticLLMService {
 
     /**
      * Check if TypeScript agent system is available
+     * The LLM CLI is only required when an agent model is served by the LLM Connector backend
      */
     async isAgentAvailable(): Promise<boolean> {
         try {
+            const modelConfig = this.createModelConfig();
+            const needsBackend = [modelConfig.reasoning, modelConfig.processing]
+                .some(model => this.providerRegistry.usesBackend(model));
             const llmPath = '/opt/homebrew/Caskroom/miniconda/base/envs/llm/bin/llm';
-            const llmExists = fs.existsSync(llmPath);
+            const llmExists = !needsBackend || fs.existsSync(llmPath);
             const agentInitialized = !!this.reActFlow;
             
             console.log(`🔍 TypeScript ReAct Agent availability check:`);
-            console.log(`   LLM CLI: ${llmExists ? '✅' : '❌'} (${llmPath})`);
+            console.log(`   LLM CLI: ${llmExists ? '✅' : '❌'} (${needsBackend ? llmPath : 'not required - native providers'})`);
             console.log(`   ReAct Agent: ${agentInitialized ? '✅' : '❌'} (TypeScript)`);
             console.log(`   MCP Client: ${!!this.mcpClientService ? '✅' : '❌'} (Service)`);
             
@@ -191,11 +341,7 @@ export class AgenticLLMService {
      */
     private async callLLMCLI(prompt: string, model: string): Promise<LLMResponse> {
         try {
-            const llmProvider = new LLMWilsonProvider(
-                this.settings.llmConnectorApiUrl || 'http://localhost:49153',
-                this.settings.llmConnectorApiKey || 'your_api_key'
-            );
-            const result = await llmProvider.callLLM(prompt, model);
+            const result = await this.providerRegistry.callLLM(prompt, model);
             return { result };
         } catch (error) {
             throw new Error(`LLM API failed: ${error instanceof Error ? error.message : String(error)}`);
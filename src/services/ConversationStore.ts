@@ -0,0 +1,124 @@
+import { Conversation, ConversationMessage } from '../core/types';
+import { joinPath } from '../utils/pathUtils';
+import { buildConversationTitle } from '../utils/conversationUtils';
+
+/**
+ * Local conversation store
+ * Keeps the message history of each conversation as a JSON file in the plugin's
+ * conversations folder, so chat context survives closing the panel and can be
+ * rebuilt for any provider (and for agent mode) without the backend's --cid
+ */
+export class ConversationStore {
+    private conversationsDir: string;
+
+    constructor(pluginDir: string) {
+        this.conversationsDir = joinPath(pluginDir, 'conversations');
+    }
+
+    /**
+     * Create a new, unsaved conversation
+     */
+    create(): Conversation {
+        const now = Date.now();
+        return {
+            id: `conv-${now}`,
+            title: 'New conversation',
+            createdAt: now,
+            updatedAt: now,
+            messages: []
+        };
+    }
+
+    /**
+     * Load a conversation by ID, or undefined if it does not exist or cannot be read
+     */
+    async load(id: string): Promise<Conversation | undefined> {
+        const fs = require('fs').promises;
+        try {
+            const content = await fs.readFile(this.getConversationPath(id), 'utf-8');
+            return JSON.parse(content) as Conversation;
+        } catch (error) {
+            if (error.code !== 'ENOENT') {
+                console.warn(`⚠️ ConversationStore: Failed to load conversation ${id}:`, error);
+            }
+            return undefined;
+        }
+    }
+
+    /**
+     * List stored conversations, most recently updated first
+     */
+    async list(): Promise<Conversation[]> {
+        const fs = require('fs').promises;
+        let files: string[];
+        try {
+            files = await fs.readdir(this.conversationsDir);
+        } catch (error) {
+            return []; // Folder is created on first save
+        }
+
+        const conversations: Conversation[] = [];
+        for (const file of files.filter(f => f.endsWith('.json'))) {
+            const conversation = await this.load(file.slice(0, -'.json'.length));
+            if (conversation) {
+                conversations.push(conversation);
+            }
+        }
+
+        return conversations.sort((a, b) => b.updatedAt - a.updatedAt);
+    }
+
+    /**
+     * Get the most recently updated conversation
+     */
+    async getLatest(): Promise<Conversation | undefined> {
+        const conversations = await this.list();
+        return conversations[0];
+    }
+
+    /**
+     * Append messages to a conversation and save it
+     * The first user message becomes the conversation title
+     */
+    async append(conversation: Conversation, messages: ConversationMessage[]): Promise<void> {
+        if (conversation.messages.length === 0) {
+            const firstPrompt = messages.find(m => m.role === 'user');
+            if (firstPrompt) {
+                conversation.title = buildConversationTitle(firstPrompt.content);
+            }
+        }
+
+        conversation.messages.push(...messages);
+        conversation.updatedAt = Date.now();
+        await this.save(conversation);
+    }
+
+    /**
+     * Write a conversation to disk
+     */
+    async save(conversation: Conversation): Promise<void> {
+        const fs = require('fs').promises;
+        await fs.mkdir(this.conversationsDir, { recursive: true });
+        await fs.writeFile(this.getConversationPath(conversation.id), JSON.stringify(conversation, null, 2), 'utf-8');
+    }
+
+    /**
+     * Delete a stored conversation
+     */
+    async delete(id: string): Promise<void> {
+        const fs = require('fs').promises;
+        try {
+            await fs.unlink(this.getConversationPath(id));
+        } catch (error) {
+            if (error.code !== 'ENOENT') {
+                throw error;
+            }
+        }
+    }
+
+    private getConversationPath(id: string): string {
+        // IDs are generated by create(), but never let one escape the folder
+        const safeId = id.replace(/[^a-zA-Z0-9_-]/g, '_');
+        return joinPath(this.conversationsDir, `${safeId}.json`);
+    }
+}
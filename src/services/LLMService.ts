@@ -1,20 +1,45 @@
-import { LLMRequest, LLMResponse, LLMPluginSettings, MCPToolCall, MCPToolResult, ProcessingMode, ParsedCommand } from '../core/types';
+import { ConversationMessage, LLMRequest, LLMResponse, LLMPluginSettings, MCPToolCall, MCPToolResult, ProcessingMode, ParsedCommand, TokenUsage } from '../core/types';
 import { MCPClientService } from './MCPClientService';
 import { AgenticLLMService } from './AgenticLLMService';
 import { parseCommand, getEffectiveMode } from '../utils/commandParser';
-import { withHttpRetry, createLLMError, RetryOptions } from '../utils/retryUtils';
-import { ProgressCallback } from '../agents/types';
+import { withHttpRetry, withRetry, createLLMError, shouldFallback, RetryOptions } from '../utils/retryUtils';
+import { AgentProfile, PlanEditHandler, ProgressCallback, ProviderChatResponse, ProviderMessage, ProviderToolCall, ToolApprovalHandler } from '../agents/types';
+import { LLMProviderRegistry } from '../agents/LLMProviderRegistry';
+import { isEventStream, isJsonResponse, readResponseStream, readSSEStream } from '../utils/streamUtils';
+import { addUsage, estimateTokens, estimateUsage, parseUsage } from '../utils/usageUtils';
+import { supportsToolCalling, supportsVision } from '../utils/modelCapabilities';
+import { formatTranscript, trimHistory } from '../utils/conversationUtils';
+
+/**
+ * Maximum tool-calling rounds in chat mode before the model must answer
+ */
+const MAX_CHAT_TOOL_ROUNDS = 5;
+
+/**
+ * Token budget for earlier conversation turns when the model declares no context window
+ */
+const DEFAULT_HISTORY_TOKENS = 8000;
 
 export class LLMService {
     private mcpClientService?: MCPClientService;
     private agenticService: AgenticLLMService;
+    private providerRegistry: LLMProviderRegistry;
     private currentMode: ProcessingMode;
+    private currentProfile?: string; // Agent profile selected in the UI
 
     constructor(private settings: LLMPluginSettings) {
-        this.agenticService = new AgenticLLMService(settings);
+        this.providerRegistry = new LLMProviderRegistry(settings);
+        this.agenticService = new AgenticLLMService(settings, this.providerRegistry);
         this.currentMode = settings.defaultMode || ProcessingMode.CHAT;
     }
 
+    /**
+     * Get the provider registry shared by chat and agent mode
+     */
+    getProviderRegistry(): LLMProviderRegistry {
+        return this.providerRegistry;
+    }
+
     /**
      * Set MCP client service for tool integration
      */
@@ -38,6 +63,22 @@ export class LLMService {
         console.log(`🎯 UI Mode changed to: ${mode.toUpperCase()}`);
     }
 
+    /**
+     * Set the agent profile for Agent mode requests (from UI selector; undefined is the default agent)
+     * A /agent:<profile> prefix overrides it per message
+     */
+    setCurrentProfile(profileId?: string): void {
+        this.currentProfile = profileId;
+        console.log(`🎭 Agent profile changed to: ${profileId || 'default'}`);
+    }
+
+    /**
+     * List the agent profiles in the profiles folder
+     */
+    async listAgentProfiles(): Promise<AgentProfile[]> {
+        return await this.agenticService.listAgentProfiles();
+    }
+
     /**
      * Set progress callback for agent mode
      */
@@ -45,6 +86,27 @@ export class LLMService {
         this.agenticService.setProgressCallback(callback);
     }
 
+    /**
+     * Set the handler that asks the user to approve agent tool calls
+     */
+    setToolApprovalHandler(handler: ToolApprovalHandler) {
+        this.agenticService.setToolApprovalHandler(handler);
+    }
+
+    /**
+     * Set the handler that lets the user edit the agent's plan before execution
+     */
+    setPlanEditHandler(handler: PlanEditHandler) {
+        this.agenticService.setPlanEditHandler(handler);
+    }
+
+    /**
+     * Resume the most recent agent run that was cancelled or interrupted
+     */
+    async resumeAgentRun(signal?: AbortSignal): Promise<LLMResponse> {
+        return await this.agenticService.resumeAgentRun(signal);
+    }
+
     async sendRequest(request: LLMRequest): Promise<LLMResponse> {
         try {
             console.log('📥 Processing request:', request.prompt.substring(0, 100) + '...');
@@ -56,7 +118,9 @@ export class LLMService {
             // Create clean request with command prefix removed
             const cleanRequest: LLMRequest = {
                 ...request,
-                prompt: parsed.cleanPrompt
+                prompt: parsed.cleanPrompt,
+                agentBudget: parsed.agentBudget ? { ...request.agentBudget, ...parsed.agentBudget } : request.agentBudget,
+                agentProfile: parsed.agentProfile || request.agentProfile || this.currentProfile
             };
 
             // Log mode decision
@@ -88,13 +152,61 @@ export class LLMService {
     }
 
     /**
-     * Process request in Chat Mode (direct LLM CLI)
+     * Process request in Chat Mode, walking the model's fallback chain on 429/5xx errors
+     * The response records which model actually answered
      */
     private async processChatMode(request: LLMRequest): Promise<LLMResponse> {
+        const chain = this.providerRegistry.getFallbackChain(request.model);
+
+        for (let i = 0; ; i++) {
+            const model = chain[i];
+            try {
+                const response = await this.sendChatRequest({ ...request, model });
+                if (model !== request.model) {
+                    console.log(`✅ Chat Mode: Answered by fallback model "${model}"`);
+                }
+                return { ...response, model };
+            } catch (error) {
+                if (i === chain.length - 1 || !shouldFallback(error) || request.signal?.aborted) {
+                    throw error;
+                }
+                console.warn(`⚠️ Chat Mode: Model "${model}" failed (${error instanceof Error ? error.message : String(error)}), falling back to "${chain[i + 1]}"`);
+            }
+        }
+    }
+
+    /**
+     * Send a chat request to the LLM Connector backend or a native provider
+     */
+    private async sendChatRequest(request: LLMRequest): Promise<LLMResponse> {
+        this.checkModelCapabilities(request);
+
+        if (!this.providerRegistry.usesBackend(request.model)) {
+            console.log('💬 Processing in Chat Mode - Native provider');
+            return await this.sendProviderRequest(request);
+        }
+
         console.log('💬 Processing in Chat Mode - Direct LLM CLI');
         return await this.sendTraditionalRequest(request);
     }
 
+    /**
+     * Reject requests the model cannot handle according to its capability metadata
+     * Prompts longer than the context window only warn, since the token count is an estimate
+     */
+    private checkModelCapabilities(request: LLMRequest): void {
+        const definition = this.providerRegistry.getModelDefinition(request.model);
+
+        if (request.images && request.images.length > 0 && !supportsVision(definition)) {
+            throw new Error(`Model "${definition?.label || request.model}" does not accept images - remove the attachments or pick a vision model`);
+        }
+
+        const contextWindow = definition?.capabilities?.contextWindow;
+        if (contextWindow && estimateTokens(request.prompt) > contextWindow) {
+            console.warn(`⚠️ Chat Mode: Prompt (~${estimateTokens(request.prompt)} tokens) may exceed the ${contextWindow} token context window of "${request.model}"`);
+        }
+    }
+
     /**
      * Process request in Agent Mode (TypeScript ReAct Agent)
      */
@@ -110,6 +222,164 @@ export class LLMService {
         return await this.agenticService.sendRequest(request);
     }
 
+    /**
+     * Send chat request to a native provider (e.g. OpenAI-compatible) with retry logic
+     * When MCP tools are available they are offered for native function calling; tool calls
+     * are executed and fed back until the model answers (at most MAX_CHAT_TOOL_ROUNDS rounds)
+     * Templates and backend conversation IDs are LLM Connector features and are not applied here
+     */
+    private async sendProviderRequest(request: LLMRequest): Promise<LLMResponse> {
+        if (request.template) {
+            console.warn(`⚠️ Template "${request.template}" is only supported by the LLM Connector backend - ignoring`);
+        }
+
+        const messages: ProviderMessage[] = [
+            ...this.getHistory(request).map(message => ({ role: message.role, content: message.content })),
+            {
+                role: 'user',
+                content: request.prompt,
+                images: request.images
+            }
+        ];
+        const tools = this.getChatTools(request.model);
+        let usage: TokenUsage | undefined;
+
+        for (let round = 1; ; round++) {
+            // Last round: withhold tools so the model has to answer with what it has
+            const offerTools = tools.length > 0 && round <= MAX_CHAT_TOOL_ROUNDS;
+            const response = await this.callProviderWithRetry(messages, request, offerTools ? tools : undefined);
+            if (response.usage) {
+                usage = addUsage(usage, response.usage);
+            }
+
+            if (!offerTools || !response.toolCalls || response.toolCalls.length === 0) {
+                return {
+                    result: response.content,
+                    conversationId: request.conversationId,
+                    usage
+                };
+            }
+
+            console.log(`🔧 Chat Mode: Model requested ${response.toolCalls.length} tool call(s) in round ${round}`);
+            messages.push({
+                role: 'assistant',
+                content: response.content,
+                toolCalls: response.toolCalls
+            });
+            messages.push(...await this.processToolCallsAndRespond(response.toolCalls, request.signal));
+        }
+    }
+
+    /**
+     * Make one provider chat call with retry logic
+     */
+    private async callProviderWithRetry(messages: ProviderMessage[], request: LLMRequest, tools?: any[]): Promise<ProviderChatResponse> {
+        const retryOptions: Partial<RetryOptions> = {
+            maxRetries: 3,
+            baseWaitTime: 1000,
+            maxWaitTime: 10000,
+            // A streamed answer is read inside the operation, so allow it more time
+            timeoutMs: request.onToken ? 300000 : 60000,
+            retryOnStatus: [408, 429, 500, 502, 503, 504, 520, 521, 522, 523, 524]
+        };
+
+        let tokensStreamed = false;
+        const onToken = request.onToken
+            ? (token: string) => {
+                tokensStreamed = true;
+                request.onToken?.(token);
+            }
+            : undefined;
+
+        try {
+            const retryResult = await withRetry(
+                async (signal) => {
+                    try {
+                        // The attempt's signal also fires on timeout, ending the fetch and stream reader
+                        return await this.providerRegistry.chat({
+                            messages,
+                            model: request.model,
+                            signal,
+                            onToken,
+                            tools
+                        });
+                    } catch (error) {
+                        // Tokens already reached the UI - retrying would duplicate them
+                        if (tokensStreamed) {
+                            throw new Error(`Stream interrupted: ${error instanceof Error ? error.message : String(error)}`);
+                        }
+                        throw error;
+                    }
+                },
+                retryOptions,
+                'Chat Mode provider call',
+                request.signal
+            );
+
+            if (!retryResult.success || !retryResult.result) {
+                throw retryResult.error;
+            }
+
+            return retryResult.result;
+
+        } catch (error) {
+            console.error('❌ Chat Mode provider call failed after retries:', error);
+            throw createLLMError(error, 'Chat Mode provider call');
+        }
+    }
+
+    /**
+     * Get MCP tool definitions to offer for native function calling in chat mode
+     * Tool names must be unique per request, so conflicted names keep the first server's tool
+     * (the same one MCPToolRegistry.getTool resolves the plain name to)
+     * Models marked without tool calling get no tools
+     */
+    private getChatTools(model: string): any[] {
+        if (!this.mcpClientService || !this.settings.mcpEnabled) {
+            return [];
+        }
+
+        if (!supportsToolCalling(this.providerRegistry.getModelDefinition(model))) {
+            return [];
+        }
+
+        const seen = new Set<string>();
+        return this.mcpClientService.getToolsForLLM().filter(tool => {
+            const name = tool.function?.name;
+            if (!name || seen.has(name)) {
+                return false;
+            }
+            seen.add(name);
+            return true;
+        });
+    }
+
+    /**
+     * Get the earlier turns of the local conversation that fit the model's context
+     * History may use at most half of the context window, leaving room for the prompt and answer
+     */
+    private getHistory(request: LLMRequest): ConversationMessage[] {
+        if (!request.history || request.history.length === 0) {
+            return [];
+        }
+
+        const contextWindow = this.providerRegistry.getModelDefinition(request.model)?.capabilities?.contextWindow;
+        return trimHistory(request.history, contextWindow ? Math.floor(contextWindow / 2) : DEFAULT_HISTORY_TOKENS);
+    }
+
+    /**
+     * Build the backend prompt, inlining the local conversation history
+     * Skipped when the backend keeps the context itself (--cid) or a template processes the prompt
+     */
+    private buildBackendPrompt(request: LLMRequest): string {
+        const history = request.conversationId || request.template ? [] : this.getHistory(request);
+        if (history.length === 0) {
+            return request.prompt;
+        }
+
+        return `Conversation so far:\n\n${formatTranscript(history)}\n\nContinue the conversation. User: ${request.prompt}`;
+    }
+
     /**
      * Send traditional LLM API request with robust retry logic
      */
@@ -127,16 +397,17 @@ export class LLMService {
         // For YouTube requests, warn that tools aren't available in traditional mode
         if (lowerPrompt.includes('youtube') || /youtube\.com|youtu\.be/.test(lowerPrompt)) {
             console.warn('⚠️ YouTube request in traditional mode - tools not available in this backend');
-            console.warn('Consider enabling agentic mode for tool-based requests');
+            console.warn('Consider agentic mode or a native provider model for tool-based requests');
         }
 
         const requestBody = {
-            prompt: request.prompt,
+            prompt: this.buildBackendPrompt(request),
             template: request.template,
             model: request.model,
             options: request.options,
             json_mode: false,
-            images: request.images
+            images: request.images,
+            stream: !!request.onToken // Backends without streaming ignore this and return JSON
             // Note: tools and tool_choice removed since backend doesn't support them
         };
 
@@ -162,7 +433,7 @@ export class LLMService {
                     method: 'POST',
                     headers: {
                         'Content-Type': 'application/json',
-                        'Accept': 'application/json',
+                        'Accept': request.onToken ? 'text/event-stream, application/json' : 'application/json',
                         'X-API-Key': this.settings.llmConnectorApiKey
                     },
                     body: JSON.stringify(requestBody),
@@ -177,6 +448,10 @@ export class LLMService {
             }
 
             const response = retryResult.result;
+            if (request.onToken && !isJsonResponse(response)) {
+                return await this.readBackendStream(response, request);
+            }
+
             const responseData = await response.json();
 
             // Debug: Log response for YouTube requests
@@ -192,7 +467,8 @@ export class LLMService {
 
             return {
                 result: responseData.result,
-                conversationId: responseData.conversation_id
+                conversationId: responseData.conversation_id,
+                usage: this.getBackendUsage(responseData.usage, request, responseData.result)
             };
 
         } catch (error) {
@@ -201,90 +477,121 @@ export class LLMService {
         }
     }
 
+    /**
+     * Read a streamed backend response (SSE or plain chunked text), forwarding tokens as they arrive
+     * SSE events may be JSON ({delta|chunk|content|text, conversation_id}) or raw text
+     */
+    private async readBackendStream(response: Response, request: LLMRequest): Promise<LLMResponse> {
+        let result = '';
+        let conversationId: string | undefined;
+        let rawUsage: any;
+
+        const handleText = (text: string) => {
+            result += text;
+            request.onToken?.(text);
+        };
+
+        if (isEventStream(response)) {
+            await readSSEStream(response, data => {
+                let event: any;
+                try {
+                    event = JSON.parse(data);
+                } catch {
+                    handleText(data);
+                    return;
+                }
+
+                if (!event || typeof event !== 'object') {
+                    handleText(data);
+                    return;
+                }
+                if (event.error) {
+                    throw new Error(`Backend stream error: ${event.error}`);
+                }
+                if (event.conversation_id) {
+                    conversationId = event.conversation_id;
+                }
+                if (event.usage) {
+                    rawUsage = event.usage;
+                }
+                const text = event.delta ?? event.chunk ?? event.content ?? event.text;
+                if (typeof text === 'string' && text) {
+                    handleText(text);
+                }
+            });
+        } else {
+            await readResponseStream(response, handleText);
+        }
+
+        console.log(`✅ Chat Mode stream complete (${result.length} chars)`);
+        return {
+            result,
+            conversationId,
+            usage: this.getBackendUsage(rawUsage, request, result)
+        };
+    }
+
+    /**
+     * Priced usage of a backend chat call, estimated when the backend reports none
+     */
+    private getBackendUsage(rawUsage: any, request: LLMRequest, result: string): TokenUsage {
+        const usage = parseUsage(rawUsage, request.model) || estimateUsage(request.prompt, result || '', request.model);
+        return this.providerRegistry.priceUsage(usage);
+    }
+
     // Removed: shouldUseAgenticSystem() and isComplexRequest() 
     // Replaced with explicit mode-based processing in sendRequest()
 
     /**
-     * Process tool calls from LLM and send results back for final response
+     * Execute tool calls from the LLM and turn the results into tool messages for the next round
      */
-    private async processToolCallsAndRespond(responseData: any, originalRequest: LLMRequest): Promise<LLMResponse> {
+    private async processToolCallsAndRespond(providerToolCalls: ProviderToolCall[], signal?: AbortSignal): Promise<ProviderMessage[]> {
         if (!this.mcpClientService) {
             throw new Error('MCP client service not available');
         }
 
-        try {
-            // Convert response tool calls to our format
-            const toolCalls: MCPToolCall[] = responseData.tool_calls.map((call: any, index: number) => ({
-                id: call.id || `tool_call_${index}`,
-                toolName: call.function?.name || call.name,
-                serverId: this.findServerForTool(call.function?.name || call.name),
-                arguments: call.function?.arguments || call.arguments || {}
-            }));
-
-            // Execute tool calls
-            const toolResults = await this.mcpClientService.executeToolCalls(toolCalls);
-
-            // Send tool results back to LLM for final response
-            return await this.sendToolResults(toolResults, originalRequest, responseData);
-        } catch (error) {
-            console.error('Failed to process tool calls:', error);
-            return {
-                result: responseData.result || 'Tool execution failed',
-                error: error instanceof Error ? error.message : 'Tool execution error'
-            };
+        // Convert provider tool calls to our format
+        const toolCalls: MCPToolCall[] = providerToolCalls.map(call => ({
+            id: call.id,
+            toolName: call.name,
+            serverId: this.findServerForTool(call.name),
+            arguments: call.arguments,
+            signal
+        }));
+
+        // Execute tool calls (failures come back as unsuccessful results, not exceptions)
+        const toolResults = await this.mcpClientService.executeToolCalls(toolCalls);
+
+        if (signal?.aborted) {
+            throw new DOMException('Operation was cancelled', 'AbortError');
         }
+
+        return toolResults.map(result => ({
+            role: 'tool' as const,
+            toolCallId: result.toolCallId,
+            content: this.formatToolResultForLLM(result)
+        }));
     }
 
     /**
-     * Send tool results back to LLM for final response
+     * Format a tool result as plain text for the model
      */
-    private async sendToolResults(toolResults: MCPToolResult[], originalRequest: LLMRequest, previousResponse: any): Promise<LLMResponse> {
-        try {
-            // Format tool results for LLM
-            const toolResultsText = toolResults.map(result => {
-                if (result.success) {
-                    return `Tool ${result.toolCallId} result: ${typeof result.content === 'string' ? result.content : JSON.stringify(result.content)}`;
-                } else {
-                    return `Tool ${result.toolCallId} failed: ${result.error}`;
-                }
-            }).join('\n\n');
+    private formatToolResultForLLM(result: MCPToolResult): string {
+        if (!result.success) {
+            return `Error: ${result.error || 'Tool execution failed'}`;
+        }
 
-            // Send follow-up request with tool results
-            const response = await fetch(`${this.settings.llmConnectorApiUrl}/llm`, {
-                method: 'POST',
-                headers: {
-                    'Content-Type': 'application/json',
-                    'Accept': 'application/json',
-                    'X-API-Key': this.settings.llmConnectorApiKey
-                },
-                body: JSON.stringify({
-                    prompt: `${originalRequest.prompt}\n\nTool Results:\n${toolResultsText}\n\nPlease provide a final response incorporating these tool results.`,
-                    template: originalRequest.template,
-                    model: originalRequest.model,
-                    options: originalRequest.options,
-                    json_mode: false,
-                    images: originalRequest.images,
-                    conversation_id: previousResponse.conversation_id
-                }),
-                signal: originalRequest.signal
-            });
+        if (typeof result.content === 'string') {
+            return result.content;
+        }
 
-            if (!response.ok) {
-                throw new Error(`HTTP error! status: ${response.status}`);
+        // MCP content blocks: keep text, summarize anything else
+        return result.content.map((block: any) => {
+            if (block?.type === 'text') {
+                return block.text;
             }
-
-            const responseData = await response.json();
-            return {
-                result: responseData.result,
-                conversationId: responseData.conversation_id
-            };
-        } catch (error) {
-            console.error('Failed to send tool results:', error);
-            return {
-                result: 'Failed to process tool results',
-                error: error instanceof Error ? error.message : 'Unknown error'
-            };
-        }
+            return JSON.stringify(block);
+        }).join('\n');
     }
 
     /**
@@ -11,6 +11,7 @@ import {
     MCPResource
 } from '../core/types';
 import { Notice, App } from 'obsidian';
+import { classifyToolError, ToolCallError } from '../utils/actionErrorUtils';
 
 /**
  * Main MCP Client Service
@@ -140,7 +141,8 @@ export class MCPClientService {
                     toolCallId: toolCall.id,
                     success: false,
                     content: '',
-                    error: error instanceof Error ? error.message : 'Unknown error'
+                    error: error instanceof Error ? error.message : 'Unknown error',
+                    errorKind: classifyToolError(error).kind
                 });
             }
         }
@@ -163,11 +165,11 @@ export class MCPClientService {
             // Validate server connection
             const connection = this.serverManager.getServerConnection(serverId);
             if (!connection) {
-                throw new Error(`Server ${serverId} not found`);
+                throw new ToolCallError('transport', `Server ${serverId} not found`, false);
             }
 
             if (connection.status !== 'connected') {
-                throw new Error(`Server ${serverId} is not connected (status: ${connection.status})`);
+                throw new ToolCallError('transport', `Server ${serverId} is not connected (status: ${connection.status})`);
             }
 
             // Execute with extended timeout for YouTube transcript operations
@@ -177,13 +179,29 @@ export class MCPClientService {
             console.log(`🔧 Tool ${toolName}: Using timeout ${timeout}ms (YouTube operation: ${isYouTubeOp})`);
             
             const timeoutPromise = new Promise<never>((_, reject) => {
-                setTimeout(() => reject(new Error(`Tool execution timeout after ${timeout}ms`)), timeout);
+                setTimeout(() => reject(new ToolCallError('timeout', `Tool execution timeout after ${timeout}ms`)), timeout);
             });
 
             const executionPromise = this.serverManager.executeTool(serverId, toolName, args, toolCall.signal);
 
             const result = await Promise.race([executionPromise, timeoutPromise]);
 
+            // The tool ran but reported a failure (MCP isError results)
+            if (result?.isError) {
+                const errorText = this.formatToolErrorText(result);
+                console.warn(`⚠️ Tool ${toolName} reported an error: ${errorText}`);
+                if (this.settings.mcpShowToolExecution) {
+                    new Notice(`Tool ${toolName} failed: ${errorText}`, 3000);
+                }
+                return {
+                    toolCallId: id,
+                    success: false,
+                    content: this.formatToolResult(result),
+                    error: errorText,
+                    errorKind: 'tool_error'
+                };
+            }
+
             // Show success notification if enabled
             if (this.settings.mcpShowToolExecution) {
                 new Notice(`Tool ${toolName} completed successfully`, 1000);
@@ -207,11 +225,24 @@ export class MCPClientService {
                 toolCallId: id,
                 success: false,
                 content: '',
-                error: errorMessage
+                error: errorMessage,
+                errorKind: classifyToolError(error).kind
             };
         }
     }
 
+    /**
+     * Extract the message of a tool's error result (its text content blocks)
+     */
+    private formatToolErrorText(result: any): string {
+        const content = this.formatToolResult(result);
+        if (typeof content === 'string') {
+            return content || 'Tool reported an error';
+        }
+        const text = content.filter((block: any) => block?.type === 'text').map((block: any) => block.text).join('\n');
+        return text || 'Tool reported an error';
+    }
+
     /**
      * Format tool result for LLM consumption
      */
@@ -258,6 +289,13 @@ export class MCPClientService {
         return this.toolRegistry.getSimilarTools(toolName);
     }
 
+    /**
+     * Get the Obsidian app (used by the agent's built-in vault tools)
+     */
+    getApp(): App {
+        return this.app;
+    }
+
     /**
      * Get all server connections
      */
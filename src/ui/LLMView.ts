@@ -1,19 +1,27 @@
 import { ItemView, WorkspaceLeaf, Notice, MarkdownView } from 'obsidian';
 import { LLMPlugin } from '../core/LLMPlugin';
-import { ChatMessage, LLMRequest, RequestState, ProcessingMode } from '../core/types';
+import { ChatMessage, Conversation, LLMRequest, LLMResponse, RequestState, ProcessingMode, TokenUsage } from '../core/types';
 import { LLMService } from '../services/LLMService';
 import { CommandService } from '../services/CommandService';
 import { ImageService } from '../services/ImageService';
+import { ConversationStore } from '../services/ConversationStore';
 import { ChatHistory } from './components/ChatHistory';
 import { InputArea } from './components/InputArea';
+import { ToolApprovalModal } from './components/ToolApprovalModal';
+import { PlanEditor } from './components/PlanEditor';
 import { joinPath, normalizePath } from '../utils/pathUtils';
-import { AgentProgressEvent } from '../agents/types';
+import { AgentProgressEvent, AgentRunTrace, PlanItem } from '../agents/types';
+import { formatUsage } from '../utils/usageUtils';
+import { buildTraceNoteName, formatAgentTrace } from '../utils/traceUtils';
+import { formatPlanChecklist } from '../utils/planUtils';
 
 export class LLMView extends ItemView {
     private plugin: LLMPlugin;
     private llmService: LLMService;
     private commandService: CommandService;
     private imageService: ImageService;
+    private conversationStore: ConversationStore;
+    private currentConversation?: Conversation;
     private chatHistory: ChatHistory;
     private inputArea: InputArea;
     private requestState: RequestState = {
@@ -22,6 +30,9 @@ export class LLMView extends ItemView {
         lastRequest: null
     };
     private currentProgressMessage?: HTMLElement;
+    private currentStreamingMessage?: HTMLElement;
+    private streamedContent = '';
+    private streamRenderTimer?: number;
     private currentAbortController?: AbortController;
 
     constructor(leaf: WorkspaceLeaf, plugin: LLMPlugin) {
@@ -33,6 +44,12 @@ export class LLMView extends ItemView {
         this.commandService = new CommandService(this.app, this.llmService);
         this.imageService = new ImageService(this.app);
 
+        // Agent tool calls with an "ask" policy wait for the user's decision
+        this.llmService.setToolApprovalHandler((request, signal) => ToolApprovalModal.ask(this.app, request, signal));
+
+        // In plan-and-execute mode the drafted plan is editable in the chat before the agent acts
+        this.llmService.setPlanEditHandler((plan, signal) => this.editPlan(plan, signal));
+
         // Connect MCP client service to LLM service and CommandService
         const mcpClientService = plugin.getMCPClientService();
         if (mcpClientService) {
@@ -55,6 +72,13 @@ export class LLMView extends ItemView {
         containerEl.addClass('llm-chat-view');
 
         this.createChatInterface(containerEl);
+
+        // Pick up where the last conversation left off
+        const latest = await this.conversationStore.getLatest();
+        if (latest) {
+            this.openConversation(latest);
+        }
+        await this.refreshRecentConversations();
     }
 
     private createChatInterface(container: HTMLElement) {
@@ -70,12 +94,17 @@ export class LLMView extends ItemView {
         const basePath = (this.app.vault.adapter as any).basePath;
         const pluginDir = joinPath(normalizePath(basePath), '.obsidian', 'plugins', this.plugin.manifest.id);
         this.inputArea = new InputArea(inputContainer, this.app, pluginDir);
+        this.conversationStore = new ConversationStore(pluginDir);
 
         // Connect mode selector to LLM service
         this.inputArea.setCurrentMode(this.llmService.getCurrentMode());
         this.inputArea.onModeChange = (mode: ProcessingMode) => {
             this.llmService.setCurrentMode(mode);
         };
+        this.inputArea.onProfileChange = (profileId?: string) => {
+            this.llmService.setCurrentProfile(profileId);
+        };
+        this.inputArea.onLoadAgentProfiles = () => this.llmService.listAgentProfiles();
 
         // Setup event handlers
         this.setupEventHandlers();
@@ -115,6 +144,20 @@ export class LLMView extends ItemView {
             this.inputArea.clearConversationId();
         };
 
+        // Handle local conversation actions
+        this.inputArea.onNewConversation = () => {
+            this.startNewConversation();
+        };
+
+        this.inputArea.onOpenConversation = async (id: string) => {
+            const conversation = await this.conversationStore.load(id);
+            if (conversation) {
+                this.openConversation(conversation);
+            } else {
+                new Notice('Conversation not found');
+            }
+        };
+
         // Handle chat actions (copy, insert, etc.)
         this.chatHistory.container.addEventListener('llm-action', (event: CustomEvent) => {
             const { action, content } = event.detail;
@@ -260,10 +303,13 @@ export class LLMView extends ItemView {
 
             // Set up progress callback for agent mode
             const effectiveMode = this.llmService.getCurrentMode();
+            const isAgentRequest = effectiveMode === ProcessingMode.AGENT || prompt.startsWith('/agent');
             console.log('🔍 Mode check:', { effectiveMode, isAgent: effectiveMode === ProcessingMode.AGENT, hasAgentPrefix: prompt.startsWith('/agent') });
-            if (effectiveMode === ProcessingMode.AGENT || prompt.startsWith('/agent')) {
+            if (isAgentRequest) {
                 console.log('🚀 Setting up progress streaming for agent mode');
                 this.setupProgressStreaming(prompt);
+            } else {
+                this.setupChatStreaming(prompt);
             }
 
             const options = conversationId ? ["-c", "--cid", conversationId] : [];
@@ -274,7 +320,9 @@ export class LLMView extends ItemView {
                 options,
                 images,
                 conversationId,
-                signal: this.currentAbortController.signal
+                history: this.currentConversation?.messages,
+                signal: this.currentAbortController.signal,
+                onToken: isAgentRequest ? undefined : (token: string) => this.handleStreamToken(token)
             });
 
             if (response.error) {
@@ -282,13 +330,16 @@ export class LLMView extends ItemView {
             }
 
             // For agent mode, the response.result includes the formatted result
-            // For chat mode, just append normally
-            if (effectiveMode === ProcessingMode.AGENT || prompt.startsWith('/agent')) {
-                this.finalizeProgressStreaming(prompt, response.result, response.images);
+            // For chat mode, complete the streamed message
+            if (isAgentRequest) {
+                this.finalizeProgressStreaming(prompt, response.result, response.images, response.usage);
             } else {
-                this.appendToChatHistory(prompt, response.result, response.images);
+                this.finalizeChatStreaming(prompt, response.result, response.images, { usage: response.usage, model: response.model });
             }
 
+            await this.recordExchange(prompt, response, isAgentRequest ? ProcessingMode.AGENT : ProcessingMode.CHAT);
+            await this.exportAgentTrace(response.agentTrace);
+
             // Clear inputs (matching original behavior)
             this.inputArea.setPromptValue('');
             this.inputArea.setPatternValue('');
@@ -299,7 +350,11 @@ export class LLMView extends ItemView {
             await this.imageService.cleanupScreenshots(screenshotPaths);
 
         } catch (error) {
-            if (error.name === 'AbortError') {
+            // Chat mode errors arrive as response.error, so also check the signal itself
+            const cancelled = error.name === 'AbortError' || !!this.currentAbortController?.signal.aborted;
+            this.abortChatStreaming(cancelled ? 'Cancelled' : 'Failed');
+
+            if (cancelled) {
                 console.log('Request was cancelled by user');
                 this.inputArea.showCancelled();
                 new Notice('Request cancelled');
@@ -313,6 +368,44 @@ export class LLMView extends ItemView {
         }
     }
 
+    /**
+     * Resume the most recent agent run that was cancelled or interrupted by a reload
+     */
+    public async resumeAgentRun() {
+        if (this.requestState.isLoading) {
+            new Notice('Wait for the current request to finish before resuming an agent run.');
+            return;
+        }
+
+        const prompt = '⏯️ Resume last agent run';
+
+        try {
+            this.currentAbortController = new AbortController();
+            this.setLoading(true);
+            this.setupProgressStreaming(prompt);
+
+            const response = await this.llmService.resumeAgentRun(this.currentAbortController.signal);
+            if (response.error) {
+                throw new Error(response.error);
+            }
+
+            this.finalizeProgressStreaming(prompt, response.result, response.images, response.usage);
+            await this.recordExchange(prompt, response, ProcessingMode.AGENT);
+            await this.exportAgentTrace(response.agentTrace);
+
+        } catch (error) {
+            console.error('Failed to resume agent run:', error);
+            if (this.currentProgressMessage) {
+                this.chatHistory.appendToProgressMessage(this.currentProgressMessage, `\n---\n\n❌ **Resume failed**: ${error.message}`);
+                this.currentProgressMessage = undefined;
+            }
+            new Notice(`Failed to resume agent run: ${error.message}`);
+        } finally {
+            this.currentAbortController = undefined;
+            this.setLoading(false);
+        }
+    }
+
     /**
      * Set up progress streaming for agent mode
      */
@@ -385,6 +478,28 @@ export class LLMView extends ItemView {
                     progressText += `${event.data.result}\n\n`;
                 }
                 break;
+
+            case 'plan_updated':
+                progressText += `📋 **Plan${event.data.revised ? ' (revised)' : ''}**:\n`;
+                progressText += formatPlanChecklist(event.data.plan).split('\n').map((line: string) => `- ${line}`).join('\n');
+                progressText += '\n\n';
+                break;
+
+            case 'reflection_complete':
+                progressText += `🔍 **Self-critique (${event.data.round}/${event.data.maxRounds})**: ${event.data.approved ? 'approved' : 'gaps found'} - ${event.data.assessment}\n`;
+                if (!event.data.approved) {
+                    progressText += event.data.gaps.map((gap: string) => `- ${gap}`).join('\n') + '\n';
+                }
+                progressText += '\n';
+                break;
+
+            case 'chunk_progress':
+                if (event.data.phase === 'map') {
+                    progressText += `🧩 **${event.data.task}**: chunk ${event.data.chunk}/${event.data.totalChunks}\n`;
+                } else {
+                    progressText += `🧩 **${event.data.task}**: combining results${event.data.totalChunks > 1 ? ` (${event.data.chunk}/${event.data.totalChunks})` : ''}\n`;
+                }
+                break;
         }
 
         console.log('📝 Progress text generated:', progressText.length > 0 ? progressText.substring(0, 100) + '...' : '(empty)');
@@ -396,6 +511,18 @@ export class LLMView extends ItemView {
         }
     }
 
+    /**
+     * Let the user edit the agent's drafted plan in the progress message
+     * The editor sits outside the progress text, which is re-rendered on every update
+     */
+    private async editPlan(plan: PlanItem[], signal?: AbortSignal): Promise<PlanItem[] | null> {
+        if (!this.currentProgressMessage || !this.currentProgressMessage.isConnected) {
+            return plan; // Nowhere to show the editor - run the plan as drafted
+        }
+
+        return PlanEditor.edit(this.currentProgressMessage, plan, signal);
+    }
+
     /**
      * Update progress message immediately
      */
@@ -416,10 +543,13 @@ export class LLMView extends ItemView {
     /**
      * Finalize progress streaming with final result
      */
-    private finalizeProgressStreaming(prompt: string, result: string, images?: string[]) {
+    private finalizeProgressStreaming(prompt: string, result: string, images?: string[], usage?: TokenUsage) {
         if (this.currentProgressMessage) {
             // Add completion indicator only (final result will be in dedicated section)
-            const completionText = `\n---\n\n✅ **Task Completed Successfully**`;
+            let completionText = `\n---\n\n✅ **Task Completed Successfully**`;
+            if (usage) {
+                completionText += `\n🪙 **Usage**: ${formatUsage(usage)}`;
+            }
             this.chatHistory.appendToProgressMessage(this.currentProgressMessage, completionText);
             
             // Add integrated action buttons to the progress message
@@ -428,7 +558,105 @@ export class LLMView extends ItemView {
             this.currentProgressMessage = undefined;
         } else {
             // Fallback to normal chat history
-            this.appendToChatHistory(prompt, result, images);
+            this.appendToChatHistory(prompt, result, images, { usage });
+        }
+    }
+
+    /**
+     * Set up token streaming for chat mode
+     */
+    private setupChatStreaming(prompt: string) {
+        // Add the user message immediately, the answer fills in below it
+        this.chatHistory.addMessage({
+            id: `user-${Date.now()}`,
+            type: 'user',
+            content: prompt,
+            timestamp: new Date()
+        });
+
+        this.streamedContent = '';
+        this.currentStreamingMessage = this.chatHistory.addStreamingMessage();
+    }
+
+    /**
+     * Collect a streamed token and schedule a re-render
+     * Rendering is throttled so long answers don't re-render markdown on every token
+     */
+    private handleStreamToken(token: string) {
+        if (!this.currentStreamingMessage) {
+            return;
+        }
+
+        this.streamedContent += token;
+
+        if (this.streamRenderTimer === undefined) {
+            this.streamRenderTimer = window.setTimeout(() => {
+                this.streamRenderTimer = undefined;
+                if (this.currentStreamingMessage) {
+                    this.chatHistory.updateStreamingMessage(
+                        this.currentStreamingMessage,
+                        this.streamedContent,
+                        (content) => this.plugin.renderMarkdown(content)
+                    );
+                }
+            }, 50);
+        }
+    }
+
+    /**
+     * Finalize chat streaming with the complete response
+     */
+    private finalizeChatStreaming(prompt: string, result: string, images?: string[], details: Pick<ChatMessage, 'usage' | 'model'> = {}) {
+        this.clearStreamRenderTimer();
+
+        if (this.currentStreamingMessage) {
+            this.chatHistory.finalizeStreamingMessage(this.currentStreamingMessage, {
+                id: Date.now().toString(),
+                type: 'assistant',
+                content: result,
+                timestamp: new Date(),
+                images: images,
+                ...details
+            }, (content) => this.plugin.renderMarkdown(content));
+
+            this.currentStreamingMessage = undefined;
+            this.streamedContent = '';
+        } else {
+            // Fallback to normal chat history
+            this.appendToChatHistory(prompt, result, images, details);
+        }
+    }
+
+    /**
+     * Stop chat streaming after cancellation or failure
+     * Keeps any partial answer (marked as incomplete) and drops an empty placeholder
+     */
+    private abortChatStreaming(reason: string) {
+        this.clearStreamRenderTimer();
+
+        if (!this.currentStreamingMessage) {
+            return;
+        }
+
+        if (this.streamedContent) {
+            this.chatHistory.finalizeStreamingMessage(this.currentStreamingMessage, {
+                id: Date.now().toString(),
+                type: 'assistant',
+                content: `${this.streamedContent}\n\n*(${reason} - response incomplete)*`,
+                timestamp: new Date()
+            }, (content) => this.plugin.renderMarkdown(content));
+        } else {
+            this.currentStreamingMessage.remove();
+        }
+
+        this.currentStreamingMessage = undefined;
+        this.streamedContent = '';
+    }
+
+    private clearStreamRenderTimer() {
+        if (this.streamRenderTimer !== undefined) {
+            window.clearTimeout(this.streamRenderTimer);
+            this.streamRenderTimer = undefined;
         }
     }
 
@@ -620,7 +848,88 @@ export class LLMView extends ItemView {
         }
     }
 
-    private appendToChatHistory(prompt: string, response: string, images?: string[]) {
+    /**
+     * Save a prompt and its answer to the current local conversation, creating one if needed
+     * Storage failures are logged so they never fail the request itself
+     */
+    private async recordExchange(prompt: string, response: LLMResponse, mode: ProcessingMode) {
+        if (!this.currentConversation) {
+            this.currentConversation = this.conversationStore.create();
+        }
+
+        const now = Date.now();
+        try {
+            await this.conversationStore.append(this.currentConversation, [
+                { role: 'user', content: prompt, timestamp: now, mode },
+                { role: 'assistant', content: response.result, timestamp: now, mode, model: response.model, usage: response.usage }
+            ]);
+            await this.refreshRecentConversations();
+        } catch (error) {
+            console.error('❌ Failed to save conversation:', error);
+        }
+    }
+
+    /**
+     * Write an agent run's trace to a note in the trace folder, when enabled in settings
+     * Export failures are reported but never fail the request itself
+     */
+    private async exportAgentTrace(trace?: AgentRunTrace) {
+        if (!trace || !this.plugin.settings.exportAgentTraces) {
+            return;
+        }
+
+        try {
+            const folderPath = normalizePath(this.plugin.settings.agentTraceFolder || 'Agent Runs');
+            if (!(await this.app.vault.adapter.exists(folderPath))) {
+                await this.app.vault.createFolder(folderPath);
+            }
+
+            let notePath = joinPath(folderPath, buildTraceNoteName(trace));
+            for (let copy = 2; await this.app.vault.adapter.exists(notePath); copy++) {
+                notePath = joinPath(folderPath, buildTraceNoteName(trace, copy));
+            }
+            await this.app.vault.create(notePath, formatAgentTrace(trace));
+            new Notice(`Agent trace saved to ${notePath}`);
+        } catch (error) {
+            console.error('❌ Failed to export agent trace:', error);
+            new Notice('Failed to save agent trace note');
+        }
+    }
+
+    /**
+     * Show a stored conversation and continue it
+     */
+    private openConversation(conversation: Conversation) {
+        this.currentConversation = conversation;
+        this.chatHistory.clear();
+
+        conversation.messages.forEach((message, index) => {
+            this.chatHistory.addMessage({
+                id: `${conversation.id}-${index}`,
+                type: message.role,
+                content: message.content,
+                timestamp: new Date(message.timestamp),
+                model: message.model,
+                usage: message.usage
+            }, message.role === 'user' ? (content) => content : (content) => this.plugin.renderMarkdown(content));
+        });
+    }
+
+    /**
+     * Start a fresh conversation; the previous one stays in the store
+     */
+    private startNewConversation() {
+        this.currentConversation = undefined;
+        this.chatHistory.clear();
+        this.inputArea.clearConversationId();
+    }
+
+    private async refreshRecentConversations() {
+        const conversations = await this.conversationStore.list();
+        this.inputArea.setRecentConversations(conversations.slice(0, 10).map(c => ({ id: c.id, title: c.title })));
+    }
+
+    private appendToChatHistory(prompt: string, response: string, images?: string[], details: Pick<ChatMessage, 'usage' | 'model'> = {}) {
         // Add user message
         const userMessage: ChatMessage = {
             id: Date.now().toString(),
@@ -635,7 +944,8 @@ export class LLMView extends ItemView {
             type: 'assistant',
             content: response,
             timestamp: new Date(),
-            images: images
+            images: images,
+            ...details
         };
 
         this.chatHistory.addMessage(userMessage, (content) => content);
@@ -1,6 +1,9 @@
 import { App, PluginSettingTab, Setting, Notice } from 'obsidian';
 import { LLMPlugin } from '../core/LLMPlugin';
-import { MCPServerConfig, ProcessingMode, AgentModelConfig } from '../core/types';
+import { AgentBudget, MCPServerConfig, ProcessingMode, AgentModelConfig, LLMProviderConfig, ToolApprovalPolicy, ToolApprovalSettings } from '../core/types';
+import { supportsJsonMode } from '../utils/modelCapabilities';
+import { formatToolPolicies, parseToolPolicies } from '../utils/toolPolicyUtils';
+import { VAULT_SERVER } from '../agents/VaultToolProvider';
 
 export class LLMSettingTab extends PluginSettingTab {
     plugin: LLMPlugin;
@@ -94,6 +97,9 @@ export class LLMSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        // LLM Providers Section
+        this.displayProviders(containerEl);
+
         // Agent Model Configuration Section
         containerEl.createEl('h3', {text: 'Agent Model Configuration'});
         
@@ -116,7 +122,7 @@ export class LLMSettingTab extends PluginSettingTab {
                 .setName('Agent Model')
                 .setDesc('Model used for all agent operations')
                 .addDropdown(dropdown => {
-                    this.populateAgentModelDropdown(dropdown);
+                    this.populateAgentModelDropdown(dropdown, this.getAgentConfig().singleModel);
                     dropdown.setValue(this.getAgentConfig().singleModel);
                     dropdown.onChange(async (value) => {
                         await this.updateAgentConfig('singleModel', value);
@@ -127,7 +133,7 @@ export class LLMSettingTab extends PluginSettingTab {
                 .setName('Reasoning Model')
                 .setDesc('Fast model for reasoning and decision-making')
                 .addDropdown(dropdown => {
-                    this.populateAgentModelDropdown(dropdown);
+                    this.populateAgentModelDropdown(dropdown, this.getAgentConfig().dualModel.reasoningModel);
                     dropdown.setValue(this.getAgentConfig().dualModel.reasoningModel);
                     dropdown.onChange(async (value) => {
                         await this.updateAgentConfig('dualModel.reasoningModel', value);
@@ -138,7 +144,7 @@ export class LLMSettingTab extends PluginSettingTab {
                 .setName('Processing Model')
                 .setDesc('Quality model for processing and summarization')
                 .addDropdown(dropdown => {
-                    this.populateAgentModelDropdown(dropdown);
+                    this.populateAgentModelDropdown(dropdown, this.getAgentConfig().dualModel.processingModel);
                     dropdown.setValue(this.getAgentConfig().dualModel.processingModel);
                     dropdown.onChange(async (value) => {
                         await this.updateAgentConfig('dualModel.processingModel', value);
@@ -206,6 +212,121 @@ export class LLMSettingTab extends PluginSettingTab {
                     await this.plugin.saveSettings();
                 }));
 
+        new Setting(containerEl)
+            .setName('Agent Token Budget')
+            .setDesc('Stop an agent run once its LLM calls have used this many tokens in total (empty for no limit). Override per message with /agent --max-tokens N')
+            .addText(text => text
+                .setPlaceholder('No limit')
+                .setValue(this.formatBudgetValue(this.plugin.settings.agentBudget?.maxTokens))
+                .onChange(async (value) => {
+                    await this.saveBudgetValue('maxTokens', value);
+                }));
+
+        new Setting(containerEl)
+            .setName('Agent Cost Budget (USD)')
+            .setDesc('Stop an agent run once its estimated cost reaches this amount (needs model pricing). Override with --max-cost USD')
+            .addText(text => text
+                .setPlaceholder('No limit')
+                .setValue(this.formatBudgetValue(this.plugin.settings.agentBudget?.maxCostUsd))
+                .onChange(async (value) => {
+                    await this.saveBudgetValue('maxCostUsd', value);
+                }));
+
+        new Setting(containerEl)
+            .setName('Agent Time Budget (minutes)')
+            .setDesc('Stop an agent run after this much wall-clock time. Override with --max-time 10m')
+            .addText(text => text
+                .setPlaceholder('No limit')
+                .setValue(this.formatBudgetValue(this.plugin.settings.agentBudget?.maxDurationSeconds, 60))
+                .onChange(async (value) => {
+                    await this.saveBudgetValue('maxDurationSeconds', value, 60);
+                }));
+
+        new Setting(containerEl)
+            .setName('Plan Before Acting')
+            .setDesc('Agent mode drafts a step-by-step plan you can edit before execution starts, then ticks it off as it works')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.agentPlanMode)
+                .onChange(async (value) => {
+                    this.plugin.settings.agentPlanMode = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Self-Critique Rounds')
+            .setDesc('Before writing its final answer, the agent reviews its results against your request and goes back to work on any gaps, up to this many times (0 to turn off)')
+            .addText(text => text
+                .setPlaceholder('0')
+                .setValue(String(this.plugin.settings.agentMaxReflections))
+                .onChange(async (value) => {
+                    const rounds = parseInt(value);
+                    this.plugin.settings.agentMaxReflections = isNaN(rounds) || rounds < 0 ? 0 : rounds;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Vault Tools')
+            .setDesc('Let the agent search, read and write notes, list tags and backlinks, and edit frontmatter through the built-in "vault" tool server. Writes ask for approval unless the vault server or the tool has a policy')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.agentVaultTools)
+                .onChange(async (value) => {
+                    this.plugin.settings.agentVaultTools = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Agent Memory')
+            .setDesc('Let the agent remember facts between runs (preferences, where things live) and recall the relevant ones at the start of each run')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.agentMemoryEnabled)
+                .onChange(async (value) => {
+                    this.plugin.settings.agentMemoryEnabled = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Agent Memory Folder')
+            .setDesc('Folder for memory notes - edit or delete them to correct what the agent remembers')
+            .addText(text => text
+                .setPlaceholder('Agent Memory')
+                .setValue(this.plugin.settings.agentMemoryFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.agentMemoryFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Agent Profiles Folder')
+            .setDesc('Folder for agent profile notes - pick a profile in the mode selector or with /agent:<profile>')
+            .addText(text => text
+                .setPlaceholder('Agent Profiles')
+                .setValue(this.plugin.settings.agentProfileFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.agentProfileFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Export Agent Traces')
+            .setDesc('Save a note for every agent run with its reasoning, tool calls, parameters, results and timings')
+            .addToggle(toggle => toggle
+                .setValue(this.plugin.settings.exportAgentTraces)
+                .onChange(async (value) => {
+                    this.plugin.settings.exportAgentTraces = value;
+                    await this.plugin.saveSettings();
+                }));
+
+        new Setting(containerEl)
+            .setName('Agent Trace Folder')
+            .setDesc('Folder for agent run trace notes')
+            .addText(text => text
+                .setPlaceholder('Agent Runs')
+                .setValue(this.plugin.settings.agentTraceFolder)
+                .onChange(async (value) => {
+                    this.plugin.settings.agentTraceFolder = value.trim();
+                    await this.plugin.saveSettings();
+                }));
+
         // Command Help
         if (this.plugin.settings.showModeSelector) {
             const helpDiv = containerEl.createDiv({cls: 'setting-item-description'});
@@ -273,11 +394,194 @@ export class LLMSettingTab extends PluginSettingTab {
                         await this.plugin.saveSettings();
                     }));
 
+            // Tool Approval Section
+            this.displayToolApproval(containerEl);
+
             // MCP Servers Section
             this.displayMCPServers(containerEl);
         }
     }
 
+    private displayProviders(containerEl: HTMLElement): void {
+        containerEl.createEl('h3', {text: 'LLM Providers'});
+
+        const descEl = containerEl.createDiv({cls: 'setting-item-description'});
+        descEl.setText('Models use the LLM Connector backend unless their entry in data.json sets "provider" to one of the provider IDs below (and optionally "model" to the upstream model name).');
+
+        const providerListContainer = containerEl.createDiv({cls: 'llm-provider-list'});
+        this.refreshProviderList(providerListContainer);
+
+        new Setting(containerEl)
+            .setName('Add Provider')
+            .setDesc('Add an OpenAI-compatible endpoint (OpenAI, OpenRouter, Ollama, LM Studio, ...)')
+            .addButton(button => button
+                .setButtonText('Add Provider')
+                .onClick(() => {
+                    this.addNewProvider();
+                }));
+    }
+
+    private refreshProviderList(container: HTMLElement): void {
+        container.empty();
+
+        this.plugin.settings.providers.forEach((provider, index) => {
+            const providerContainer = container.createDiv({cls: 'llm-provider-item'});
+
+            const headerEl = providerContainer.createDiv({cls: 'llm-provider-header'});
+            headerEl.createEl('strong', {text: provider.label || provider.id});
+            headerEl.createEl('span', {text: ` (${provider.type})`});
+
+            new Setting(providerContainer)
+                .setName('Provider ID')
+                .setDesc('Referenced by the "provider" field of model definitions')
+                .addText(text => text
+                    .setValue(provider.id)
+                    .onChange(async (value) => {
+                        provider.id = value.trim();
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(providerContainer)
+                .setName('Base URL')
+                .setDesc('Endpoint root, e.g. https://api.openai.com/v1')
+                .addText(text => text
+                    .setPlaceholder('https://api.openai.com/v1')
+                    .setValue(provider.baseUrl)
+                    .onChange(async (value) => {
+                        provider.baseUrl = value.trim();
+                        await this.plugin.saveSettings();
+                    }));
+
+            new Setting(providerContainer)
+                .setName('API Key')
+                .addText(text => text
+                    .setPlaceholder('Enter API Key')
+                    .setValue(provider.apiKey)
+                    .onChange(async (value) => {
+                        provider.apiKey = value;
+                        await this.plugin.saveSettings();
+                    }));
+
+            const actionsContainer = providerContainer.createDiv({cls: 'mcp-server-actions'});
+            const removeBtn = actionsContainer.createEl('button', {
+                text: 'Remove Provider',
+                cls: 'mod-warning'
+            });
+            removeBtn.onclick = async () => {
+                this.plugin.settings.providers.splice(index, 1);
+                await this.plugin.saveSettings();
+                this.refreshProviderList(container);
+                new Notice('LLM provider removed');
+            };
+
+            providerContainer.createEl('hr');
+        });
+    }
+
+    private addNewProvider(): void {
+        const newProvider: LLMProviderConfig = {
+            id: `provider_${Date.now()}`,
+            type: 'openai-compatible',
+            label: 'OpenAI-compatible',
+            baseUrl: '',
+            apiKey: ''
+        };
+
+        this.plugin.settings.providers.push(newProvider);
+        this.plugin.saveSettings();
+        this.display(); // Refresh the entire settings display
+        new Notice('New LLM provider added. Configure its base URL and API key.');
+    }
+
+    private displayToolApproval(containerEl: HTMLElement): void {
+        containerEl.createEl('h4', {text: 'Agent Tool Approval'});
+
+        const policyOptions: Record<ToolApprovalPolicy, string> = {
+            allow: 'Allow - run without asking',
+            ask: 'Ask - show an approval prompt',
+            deny: 'Deny - never run'
+        };
+
+        new Setting(containerEl)
+            .setName('Default Policy')
+            .setDesc('Policy for agent tool calls without a server or tool specific policy')
+            .addDropdown(dropdown => dropdown
+                .addOptions(policyOptions)
+                .setValue(this.getToolApproval().defaultPolicy)
+                .onChange(async (value) => {
+                    this.getToolApproval().defaultPolicy = value as ToolApprovalPolicy;
+                    await this.plugin.saveSettings();
+                }));
+
+        // Servers from settings and from settings.json (connections cover both)
+        const servers = new Map<string, string>();
+        if (this.plugin.settings.agentVaultTools) {
+            servers.set(VAULT_SERVER, 'Vault (built-in)');
+        }
+        this.plugin.settings.mcpServers.forEach(server => servers.set(server.id, server.name || server.id));
+        this.plugin.getMCPClientService()?.getServerConnections().forEach(conn => servers.set(conn.id, conn.name || conn.id));
+
+        servers.forEach((name, serverId) => {
+            new Setting(containerEl)
+                .setName(`Server: ${name}`)
+                .setDesc(`Policy for tools of the "${serverId}" server`)
+                .addDropdown(dropdown => dropdown
+                    .addOption('', 'Use default policy')
+                    .addOptions(policyOptions)
+                    .setValue(this.getToolApproval().servers[serverId] || '')
+                    .onChange(async (value) => {
+                        const approval = this.getToolApproval();
+                        if (value) {
+                            approval.servers[serverId] = value as ToolApprovalPolicy;
+                        } else {
+                            delete approval.servers[serverId];
+                        }
+                        await this.plugin.saveSettings();
+                    }));
+        });
+
+        new Setting(containerEl)
+            .setName('Tool Policies')
+            .setDesc('One "tool: policy" per line, e.g. "write_file: ask" or "filesystem/delete_file: deny". Overrides server policies.')
+            .addTextArea(text => text
+                .setPlaceholder('write_file: ask\nexecute_command: ask')
+                .setValue(formatToolPolicies(this.getToolApproval().tools))
+                .onChange(async (value) => {
+                    this.getToolApproval().tools = parseToolPolicies(value);
+                    await this.plugin.saveSettings();
+                }));
+    }
+
+    private formatBudgetValue(value: number | undefined, unit: number = 1): string {
+        return value ? String(value / unit) : '';
+    }
+
+    /**
+     * Save one agent budget limit; empty or invalid input removes the limit
+     */
+    private async saveBudgetValue(key: keyof AgentBudget, value: string, unit: number = 1) {
+        const parsed = parseFloat(value);
+        const budget = { ...this.plugin.settings.agentBudget };
+        if (isNaN(parsed) || parsed <= 0) {
+            delete budget[key];
+        } else {
+            budget[key] = parsed * unit;
+        }
+        this.plugin.settings.agentBudget = budget;
+        await this.plugin.saveSettings();
+    }
+
+    private getToolApproval(): ToolApprovalSettings {
+        // Fill in missing parts, e.g. of a hand-edited data.json
+        const approval = this.plugin.settings.toolApproval;
+        this.plugin.settings.toolApproval = {
+            defaultPolicy: approval?.defaultPolicy || 'allow',
+            servers: approval?.servers || {},
+            tools: approval?.tools || {}
+        };
+        return this.plugin.settings.toolApproval;
+    }
+
     private displayMCPServers(containerEl: HTMLElement): void {
         containerEl.createEl('h4', {text: 'MCP Servers'});
 
@@ -501,7 +805,7 @@ export class LLMSettingTab extends PluginSettingTab {
         await this.plugin.saveSettings();
     }
 
-    private populateAgentModelDropdown(dropdown: any): void {
+    private populateAgentModelDropdown(dropdown: any, currentValue?: string): void {
         // Use agentModels from settings if available, otherwise fall back to hardcoded list
         const agentModels = this.plugin.settings.agentModels || [
             { id: 'g25fp', label: 'Gemini-2.5-Flash Preview' },
@@ -510,8 +814,15 @@ export class LLMSettingTab extends PluginSettingTab {
             { id: 'g25p', label: 'Gemini-2.5-Pro' }
         ];
         
-        agentModels.forEach(model => {
+        // Agent reasoning and processing need structured output
+        agentModels.filter(model => supportsJsonMode(model)).forEach(model => {
             dropdown.addOption(model.id, model.label);
         });
+
+        // Keep an already configured model visible instead of silently switching it
+        const current = agentModels.find(model => model.id === currentValue);
+        if (current && !supportsJsonMode(current)) {
+            dropdown.addOption(current.id, `${current.label} (no structured output)`);
+        }
     }
 }
@@ -1,6 +1,7 @@
 import { ChatMessage } from '../../core/types';
 import { UserIcon, ChatbotIcon } from '../../constants/icons';
 import { Notice } from 'obsidian';
+import { formatUsage } from '../../utils/usageUtils';
 
 export class ChatHistory {
     public container: HTMLElement;
@@ -48,10 +49,32 @@ export class ChatHistory {
             this.addImagesToMessage(messageEl, message.images);
         }
 
+        if (message.usage || message.model) {
+            this.addMessageMeta(messageEl, message);
+        }
+
         // Add action buttons
         this.addMessageActions(messageEl, message);
     }
 
+    /**
+     * Show the answering model and token usage (and cost when priced) under a message
+     */
+    private addMessageMeta(messageEl: HTMLElement, message: ChatMessage) {
+        const parts: string[] = [];
+        if (message.model) {
+            parts.push(message.model);
+        }
+        if (message.usage) {
+            parts.push(formatUsage(message.usage));
+        }
+
+        messageEl.createDiv({
+            cls: 'llm-message-meta',
+            text: parts.join(' · ')
+        });
+    }
+
     private addImagesToMessage(messageEl: HTMLElement, images: string[]) {
         const chatContent = messageEl.querySelector('.llm-chat-content');
         if (!chatContent) return;
@@ -266,6 +289,56 @@ export class ChatHistory {
         this.container.scrollTop = this.container.scrollHeight;
     }
 
+    /**
+     * Create an empty assistant message that is filled in as tokens stream in
+     */
+    addStreamingMessage(): HTMLElement {
+        const messageEl = this.container.createDiv({
+            cls: 'llm-chat-message llm-chat-assistant-message llm-streaming-message'
+        });
+
+        messageEl.innerHTML = `
+            <div class="llm-chat-content">
+                <div class="llm-chat-icon">${ChatbotIcon}</div>
+                <div class="llm-chat-text llm-streaming-text"></div>
+            </div>
+        `;
+
+        this.scrollToBottom();
+        return messageEl;
+    }
+
+    /**
+     * Re-render a streaming message with all content received so far
+     */
+    updateStreamingMessage(messageEl: HTMLElement, content: string, markdownRenderer: (content: string) => string): void {
+        const textEl = messageEl.querySelector('.llm-streaming-text');
+        if (textEl) {
+            textEl.innerHTML = markdownRenderer(content);
+        }
+        this.scrollToBottom();
+    }
+
+    /**
+     * Turn a streaming message into a regular assistant message with images and actions
+     */
+    finalizeStreamingMessage(messageEl: HTMLElement, message: ChatMessage, markdownRenderer: (content: string) => string): void {
+        this.messages.push(message);
+        this.updateStreamingMessage(messageEl, message.content, markdownRenderer);
+        messageEl.removeClass('llm-streaming-message');
+
+        if (message.images && message.images.length > 0) {
+            this.addImagesToMessage(messageEl, message.images);
+        }
+
+        if (message.usage || message.model) {
+            this.addMessageMeta(messageEl, message);
+        }
+
+        this.addMessageActions(messageEl, message);
+        this.scrollToBottom();
+    }
+
 
     /**
      * Create a progress message for real-time updates
@@ -493,7 +566,7 @@ export class ChatHistory {
     exportToMarkdown(): string {
         return this.messages.map(msg => {
             const timestamp = msg.timestamp.toLocaleString();
-            const role = msg.type === 'user' ? 'User' : 'Assistant';
+            const role = msg.type === 'user' ? 'User' : msg.model ? `Assistant - ${msg.model}` : 'Assistant';
             return `## ${role} (${timestamp})\n\n${msg.content}\n\n---\n`;
         }).join('\n');
     }
@@ -1,13 +1,15 @@
 import { Notice, App } from 'obsidian';
-import { Command, MCPServerConnection, ProcessingMode } from '../../core/types';
+import { Command, MCPServerConnection, ModelDefinition, ProcessingMode } from '../../core/types';
 import { SendIcon, StopIcon, PlusIcon, GetCidIcon } from '../../constants/icons';
 import { joinPath, normalizePath, hasImageExtension } from '../../utils/pathUtils';
 import { MCPClientService } from '../../services/MCPClientService';
+import { supportsVision } from '../../utils/modelCapabilities';
+import { AgentProfile } from '../../agents/types';
 
 interface ConfigData {
-    models: Array<{id: string, label: string}>;
+    models: ModelDefinition[];
     templates: Array<{id: string, label: string}>;
-    agentModels?: Array<{id: string, label: string}>;
+    agentModels?: ModelDefinition[];
     agentModelConfig?: {
         configType: 'single' | 'dual';
         singleModel: string;
@@ -48,6 +50,7 @@ export class InputArea {
     private attachedImages: string[] = [];
     private configData: ConfigData | null = null;
     private conversationId: string = '';
+    private recentConversations: Array<{id: string, title: string}> = [];
     private selectedTemplate: string = '';
 
     // Legacy elements for compatibility
@@ -63,10 +66,15 @@ export class InputArea {
     public onCancelRequest: () => void = () => {};
     public onGetConversationId: () => void = () => {};
     public onClearConversationId: () => void = () => {};
+    public onNewConversation: () => void = () => {};
+    public onOpenConversation: (id: string) => void = () => {};
     public onModeChange: (mode: ProcessingMode) => void = () => {};
+    public onProfileChange: (profileId?: string) => void = () => {};
+    public onLoadAgentProfiles: () => Promise<AgentProfile[]> = async () => [];
 
     // Mode selector state
     private currentMode: ProcessingMode = ProcessingMode.CHAT;
+    private currentProfile?: AgentProfile; // Agent profile picked in the mode selector
 
     // Button state management
     private isProcessing: boolean = false;
@@ -356,6 +364,8 @@ export class InputArea {
         } else {
             this.populateAgentModeModels();
         }
+
+        this.updateAttachmentsPillState();
     }
 
     private getCurrentModeString(): string {
@@ -473,6 +483,9 @@ export class InputArea {
         </svg>`;
         agentOption.createDiv({ cls: 'llm-mode-label', text: 'Agent' });
         
+        // Agent profiles, listed when the dropdown opens
+        dropdown.createDiv({ cls: 'llm-mode-profiles' });
+        
         // Set initial state
         this.updateModeSelector();
         
@@ -484,11 +497,13 @@ export class InputArea {
         
         chatOption.addEventListener('click', () => {
             this.setMode(ProcessingMode.CHAT);
+            this.setProfile(undefined);
             this.closeDropdown();
         });
         
         agentOption.addEventListener('click', () => {
             this.setMode(ProcessingMode.AGENT);
+            this.setProfile(undefined);
             this.closeDropdown();
         });
         
@@ -516,11 +531,49 @@ export class InputArea {
                     <circle cx="12" cy="12" r="3"/>
                     <path d="M12 1v6m0 6v6m11-7h-6m-6 0H1"/>
                 </svg>`;
-                currentLabel.textContent = 'Agent';
+                currentLabel.textContent = this.currentProfile ? this.currentProfile.name : 'Agent';
             }
         }
     }
 
+    /**
+     * Reload the agent profiles shown in the mode dropdown
+     * Profiles are notes, so they are listed again every time the dropdown opens
+     */
+    private async refreshAgentProfiles() {
+        const container = this.modeSelector?.querySelector('.llm-mode-profiles') as HTMLElement;
+        if (!container) return;
+
+        let profiles: AgentProfile[] = [];
+        try {
+            profiles = await this.onLoadAgentProfiles();
+        } catch (error) {
+            console.error('Failed to load agent profiles:', error);
+        }
+
+        container.empty();
+        profiles.forEach(profile => {
+            const option = container.createEl('button', {
+                cls: 'llm-mode-option llm-mode-profile-option',
+                attr: { 'data-profile': profile.id, title: profile.description || profile.name }
+            });
+            option.createDiv({ cls: 'llm-mode-label', text: profile.name });
+            option.addEventListener('click', () => {
+                this.setMode(ProcessingMode.AGENT);
+                this.setProfile(profile);
+                this.closeDropdown();
+            });
+        });
+    }
+
+    private setProfile(profile?: AgentProfile) {
+        if (profile?.id === this.currentProfile?.id) return;
+
+        this.currentProfile = profile;
+        this.updateModeSelector();
+        this.onProfileChange(profile?.id);
+    }
+
     private toggleDropdown() {
         const dropdown = this.modeSelector?.querySelector('.llm-mode-dropdown') as HTMLElement;
         const mainButton = this.modeSelector?.querySelector('.llm-mode-current');
@@ -532,6 +585,7 @@ export class InputArea {
             } else {
                 dropdown.style.display = 'block';
                 mainButton.setAttribute('aria-expanded', 'true');
+                this.refreshAgentProfiles();
             }
         }
     }
@@ -746,6 +800,34 @@ export class InputArea {
             this.hideCidMenu();
         });
 
+        const newChatBtn = buttonsContainer.createEl('button', {
+            cls: 'llm-popup-button',
+            text: 'New Chat'
+        });
+        newChatBtn.addEventListener('click', () => {
+            this.onNewConversation();
+            this.hideCidMenu();
+        });
+
+        // Locally stored conversations
+        if (this.recentConversations.length > 0) {
+            this.cidPopup.createEl('div', {
+                cls: 'llm-popup-label',
+                text: 'Recent conversations:'
+            });
+
+            this.recentConversations.forEach(conversation => {
+                const option = this.cidPopup!.createEl('button', {
+                    cls: 'llm-popup-option',
+                    text: conversation.title
+                });
+                option.addEventListener('click', () => {
+                    this.onOpenConversation(conversation.id);
+                    this.hideCidMenu();
+                });
+            });
+        }
+
         // Position and show popup
         this.positionPopup(this.cidPopup, this.cidPill);
         document.body.appendChild(this.cidPopup);
@@ -844,6 +926,47 @@ export class InputArea {
                 this.modelSelector.value = this.configData?.models[0]?.id || '';
             }
         }
+
+        this.updateAttachmentsPillState();
+    }
+
+    /**
+     * Find the chat model definition for the selected model
+     */
+    private getSelectedModelDefinition(): ModelDefinition | undefined {
+        return this.configData?.models.find(m => m.id === this.modelSelector?.value);
+    }
+
+    /**
+     * Check if the selected model can take image attachments
+     * Only chat mode sends attachments to the selected model
+     */
+    private canAttachImages(): boolean {
+        return this.currentMode !== ProcessingMode.CHAT || supportsVision(this.getSelectedModelDefinition());
+    }
+
+    /**
+     * Disable the attachments pill for models without vision, and flag images
+     * that were attached before switching to such a model
+     */
+    private updateAttachmentsPillState() {
+        if (!this.attachmentsPill) return;
+
+        const canAttach = this.canAttachImages();
+        const hasImages = this.attachedImages.length > 0;
+        const label = this.getSelectedModelDefinition()?.label || this.modelSelector?.value;
+
+        this.attachmentsPill.disabled = !canAttach;
+        this.attachmentsPill.classList.toggle('disabled', !canAttach);
+        this.attachmentsPill.classList.toggle('warning', !canAttach && hasImages);
+
+        if (canAttach) {
+            this.attachmentsPill.removeAttribute('title');
+        } else if (hasImages) {
+            this.attachmentsPill.title = `${label} does not accept images - remove the attachments or pick a vision model`;
+        } else {
+            this.attachmentsPill.title = `${label} does not accept images`;
+        }
     }
 
 
@@ -1037,6 +1160,12 @@ export class InputArea {
     }
 
     public addImage(imagePath: string) {
+        if (!this.canAttachImages()) {
+            const label = this.getSelectedModelDefinition()?.label || this.modelSelector?.value;
+            new Notice(`${label} does not accept images`);
+            return;
+        }
+
         this.attachedImages.push(imagePath);
         this.renderImagePreviews();
     }
@@ -1071,6 +1200,7 @@ export class InputArea {
 
     private renderImagePreviews() {
         this.imagePreviewContainer.empty();
+        this.updateAttachmentsPillState();
 
         // Render drag-dropped images
         this.attachedImages.forEach((imagePath, index) => {
@@ -1266,6 +1396,13 @@ export class InputArea {
         return this.conversationId;
     }
 
+    /**
+     * Set the locally stored conversations offered in the conversation menu
+     */
+    setRecentConversations(conversations: Array<{id: string, title: string}>) {
+        this.recentConversations = conversations;
+    }
+
     setConversationId(id: string) {
         this.conversationId = id;
         this.updateCidPillState();
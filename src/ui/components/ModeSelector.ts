@@ -176,7 +176,7 @@ export class ModeSelector {
         `;
         
         helpElement.innerHTML = `
-            <strong>Commands:</strong> /chat &lt;message&gt; • /agent &lt;message&gt;
+            <strong>Commands:</strong> /chat &lt;message&gt; • /agent &lt;message&gt; • /agent:&lt;profile&gt; &lt;message&gt;
         `;
         
         return helpElement;
@@ -0,0 +1,90 @@
+import { PlanItem } from '../../agents/types';
+import { createPlan } from '../../utils/planUtils';
+
+/**
+ * Inline checklist editor for the agent's drafted plan
+ * Shown in the agent's progress message before execution starts: steps can be
+ * reworded, unchecked to drop them, removed or added. "Run plan" resolves with
+ * the edited plan; "Cancel" (or cancelling the request) resolves with null.
+ */
+export class PlanEditor {
+    private listEl: HTMLElement;
+    private decided = false;
+
+    constructor(
+        private container: HTMLElement,
+        plan: PlanItem[],
+        private onDecision: (plan: PlanItem[] | null) => void
+    ) {
+        this.container.addClass('llm-plan-editor');
+        this.container.createDiv({ cls: 'llm-plan-editor-header', text: '📋 Review the plan before the agent starts' });
+
+        this.listEl = this.container.createEl('ol', { cls: 'llm-plan-editor-list' });
+        plan.forEach(item => this.addRow(item.description));
+
+        const addButton = this.container.createEl('button', { cls: 'llm-plan-editor-add', text: '+ Add step' });
+        addButton.addEventListener('click', () => this.addRow('', true));
+
+        const buttons = this.container.createDiv({ cls: 'llm-plan-editor-buttons' });
+
+        const cancelButton = buttons.createEl('button', { text: 'Cancel' });
+        cancelButton.addEventListener('click', () => this.decide(null));
+
+        const runButton = buttons.createEl('button', { cls: 'mod-cta', text: 'Run plan' });
+        runButton.addEventListener('click', () => this.decide(this.getPlan()));
+    }
+
+    /**
+     * Show the editor in a container and wait for the user's decision
+     */
+    static edit(container: HTMLElement, plan: PlanItem[], signal?: AbortSignal): Promise<PlanItem[] | null> {
+        return new Promise(resolve => {
+            if (signal?.aborted) {
+                resolve(null);
+                return;
+            }
+
+            const editor = new PlanEditor(container.createDiv(), plan, resolve);
+            signal?.addEventListener('abort', () => editor.decide(null), { once: true });
+        });
+    }
+
+    private addRow(description: string, focus = false) {
+        const row = this.listEl.createEl('li', { cls: 'llm-plan-editor-item' });
+
+        const include = row.createEl('input', { attr: { type: 'checkbox', title: 'Include this step' } });
+        include.checked = true;
+
+        const input = row.createEl('input', { cls: 'llm-plan-editor-input', attr: { type: 'text', placeholder: 'Describe the step' } });
+        input.value = description;
+
+        const removeButton = row.createEl('button', { cls: 'llm-plan-editor-remove', text: '✕', attr: { title: 'Remove step' } });
+        removeButton.addEventListener('click', () => row.remove());
+
+        if (focus) {
+            input.focus();
+        }
+    }
+
+    private getPlan(): PlanItem[] {
+        const steps: string[] = [];
+        this.listEl.querySelectorAll('li').forEach(row => {
+            const include = row.querySelector('input[type="checkbox"]') as HTMLInputElement | null;
+            const input = row.querySelector('.llm-plan-editor-input') as HTMLInputElement | null;
+            if (include?.checked && input) {
+                steps.push(input.value);
+            }
+        });
+        return createPlan(steps);
+    }
+
+    private decide(plan: PlanItem[] | null) {
+        if (this.decided) {
+            return;
+        }
+        this.decided = true;
+        // The approved plan is shown as a checklist by the progress updates
+        this.container.remove();
+        this.onDecision(plan);
+    }
+}
@@ -0,0 +1,92 @@
+import { App, Modal } from 'obsidian';
+import { ToolApprovalDecision, ToolApprovalRequest } from '../../agents/types';
+
+/**
+ * Modal asking the user to approve an agent tool call
+ * Shows the tool, server, parameters and the model's justification; closing
+ * the modal without a choice (or cancelling the request) counts as a rejection
+ */
+export class ToolApprovalModal extends Modal {
+    private decided = false;
+
+    constructor(
+        app: App,
+        private request: ToolApprovalRequest,
+        private onDecision: (decision: ToolApprovalDecision) => void
+    ) {
+        super(app);
+    }
+
+    /**
+     * Open the modal and wait for the user's decision
+     */
+    static ask(app: App, request: ToolApprovalRequest, signal?: AbortSignal): Promise<ToolApprovalDecision> {
+        return new Promise(resolve => {
+            if (signal?.aborted) {
+                resolve({ approved: false, reason: 'request cancelled' });
+                return;
+            }
+
+            const modal = new ToolApprovalModal(app, request, resolve);
+            signal?.addEventListener('abort', () => modal.decide({ approved: false, reason: 'request cancelled' }), { once: true });
+            modal.open();
+        });
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.addClass('llm-tool-approval');
+
+        contentEl.createEl('h3', { text: 'Approve tool call?' });
+
+        const details = contentEl.createDiv({ cls: 'llm-tool-approval-details' });
+        this.addDetail(details, 'Tool', this.request.tool);
+        this.addDetail(details, 'Server', this.request.server);
+        this.addDetail(details, 'Step', String(this.request.step));
+        this.addDetail(details, 'Justification', this.request.justification || '(none given)');
+
+        details.createEl('div', { cls: 'llm-tool-approval-label', text: 'Parameters' });
+        details.createEl('pre', {
+            cls: 'llm-tool-approval-parameters',
+            text: JSON.stringify(this.request.parameters || {}, null, 2)
+        });
+
+        const reasonInput = contentEl.createEl('textarea', {
+            cls: 'llm-tool-approval-reason',
+            attr: { placeholder: 'Optional: tell the agent why you reject this call', rows: '2' }
+        });
+
+        const buttons = contentEl.createDiv({ cls: 'llm-tool-approval-buttons' });
+
+        const rejectButton = buttons.createEl('button', { text: 'Reject' });
+        rejectButton.addEventListener('click', () => {
+            const reason = reasonInput.value.trim();
+            this.decide({ approved: false, reason: reason ? `rejected by user: ${reason}` : 'rejected by user' });
+        });
+
+        const approveButton = buttons.createEl('button', { cls: 'mod-cta', text: 'Approve' });
+        approveButton.addEventListener('click', () => this.decide({ approved: true }));
+        approveButton.focus();
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        // Dismissing the modal is a rejection so the flow never waits forever
+        this.decide({ approved: false, reason: 'dismissed by user' });
+    }
+
+    private decide(decision: ToolApprovalDecision) {
+        if (this.decided) {
+            return;
+        }
+        this.decided = true;
+        this.onDecision(decision);
+        this.close();
+    }
+
+    private addDetail(container: HTMLElement, label: string, value: string) {
+        const row = container.createDiv({ cls: 'llm-tool-approval-row' });
+        row.createEl('span', { cls: 'llm-tool-approval-label', text: `${label}: ` });
+        row.createEl('span', { text: value });
+    }
+}
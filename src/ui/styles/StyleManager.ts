@@ -623,6 +623,15 @@ export class StyleManager {
                 color: var(--text-on-accent);
             }
 
+            .llm-mode-profile-option {
+                padding-left: 36px;
+            }
+
+            .llm-mode-profile-option .llm-mode-label {
+                overflow: hidden;
+                text-overflow: ellipsis;
+            }
+
             .llm-mode-icon {
                 display: flex;
                 align-items: center;
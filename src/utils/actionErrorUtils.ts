@@ -0,0 +1,88 @@
+/**
+ * Utility functions for the typed errors of agent tool calls
+ * Every failed call is classified once, where it fails; the kind decides whether the
+ * call is retried and how the failure is explained to the reasoning model
+ */
+
+import { ActionError, ActionErrorKind } from '../agents/types';
+
+/**
+ * Error thrown by tool calls with a known kind
+ */
+export class ToolCallError extends Error {
+    constructor(
+        public kind: ActionErrorKind,
+        message: string,
+        public retryable: boolean = isRetryableKind(kind)
+    ) {
+        super(message);
+        this.name = 'ToolCallError';
+    }
+}
+
+/**
+ * JSON-RPC error codes used by MCP servers
+ */
+const MCP_INVALID_PARAMS = -32602;
+const MCP_CONNECTION_CLOSED = -32000;
+const MCP_REQUEST_TIMEOUT = -32001;
+
+/**
+ * Network failures reported by Node.js sockets and child processes
+ */
+const TRANSPORT_ERROR_CODES = ['ECONNREFUSED', 'ECONNRESET', 'ECONNABORTED', 'EPIPE', 'ENOTFOUND', 'EAI_AGAIN', 'ETIMEDOUT', 'EHOSTUNREACH'];
+
+/**
+ * Only transport failures and timeouts may go away when the same call is repeated
+ */
+export function isRetryableKind(kind: ActionErrorKind): boolean {
+    return kind === 'transport' || kind === 'timeout';
+}
+
+/**
+ * Classify an error thrown by a tool call
+ * Uses the error's type and codes; errors of unknown origin count as tool errors
+ */
+export function classifyToolError(error: unknown): ActionError {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (error instanceof ToolCallError) {
+        return { kind: error.kind, message, retryable: error.retryable };
+    }
+
+    if (error instanceof DOMException && error.name === 'AbortError') {
+        return { kind: 'cancelled', message, retryable: false };
+    }
+
+    const code = (error as any)?.code;
+    if (code === MCP_INVALID_PARAMS) {
+        return { kind: 'validation', message, retryable: false };
+    }
+    if (code === MCP_REQUEST_TIMEOUT) {
+        return { kind: 'timeout', message, retryable: true };
+    }
+    if (code === MCP_CONNECTION_CLOSED || TRANSPORT_ERROR_CODES.includes(code)) {
+        return { kind: 'transport', message, retryable: true };
+    }
+
+    return { kind: 'tool_error', message, retryable: false };
+}
+
+/**
+ * Advice for the reasoning model on how to react to each kind of failure
+ */
+const ERROR_HINTS: Record<ActionErrorKind, string> = {
+    tool_error: 'the tool ran and reported an error - read the message and change the call or use another tool',
+    transport: 'the server could not be reached (retries exhausted) - use another tool or server',
+    timeout: 'the call timed out (retries exhausted) - try a smaller request or another tool',
+    cancelled: 'the call was cancelled',
+    validation: 'the parameters were invalid and the call was not run - fix them and call again',
+    permission: 'the call was not allowed - do not repeat it, choose a different approach'
+};
+
+/**
+ * Describe a failure for the reasoning prompt, e.g. "timeout, retryable: ..."
+ */
+export function describeActionError(error: ActionError): string {
+    return `${error.kind}${error.retryable ? ', retryable' : ''}: ${ERROR_HINTS[error.kind]}`;
+}
@@ -0,0 +1,100 @@
+/**
+ * Utility functions for per-run agent budgets (tokens, cost and wall-clock time)
+ */
+
+import { AgentBudget, TokenUsage } from '../core/types';
+import { formatDuration } from './traceUtils';
+
+/**
+ * Combine the default budget with a per-request override; override limits win,
+ * and a limit of 0 in the override removes the default one
+ */
+export function mergeBudgets(base?: AgentBudget, override?: AgentBudget): AgentBudget {
+    return { ...(base || {}), ...(override || {}) };
+}
+
+/**
+ * Check a run against its budget
+ * Returns a note naming the budget that ran out, or undefined while the run is within budget.
+ * A cost budget only applies once the run's usage has a cost (pricing configured).
+ */
+export function getExceededBudget(budget: AgentBudget | undefined, usage: TokenUsage | undefined, elapsedMs: number): string | undefined {
+    if (!budget) {
+        return undefined;
+    }
+
+    if (budget.maxTokens && usage && usage.totalTokens >= budget.maxTokens) {
+        return `token budget ran out (${usage.totalTokens.toLocaleString()} of ${budget.maxTokens.toLocaleString()} tokens used)`;
+    }
+
+    if (budget.maxCostUsd && usage?.cost !== undefined && usage.cost >= budget.maxCostUsd) {
+        return `cost budget ran out ($${usage.cost.toFixed(4)} of $${budget.maxCostUsd.toFixed(2)} spent)`;
+    }
+
+    if (budget.maxDurationSeconds && elapsedMs >= budget.maxDurationSeconds * 1000) {
+        return `time budget ran out (${formatDuration(elapsedMs)} of ${formatDuration(budget.maxDurationSeconds * 1000)} elapsed)`;
+    }
+
+    return undefined;
+}
+
+/**
+ * Parse budget flags at the start of a prompt
+ * Supports --max-tokens N, --max-cost USD and --max-time N[s|m|h] (minutes without a unit),
+ * with a space or "=" before the value. Returns the budget and the prompt without the flags.
+ */
+export function parseBudgetFlags(text: string): { budget?: AgentBudget; prompt: string } {
+    const flagPattern = /^--(max-tokens|max-cost|max-time)(?:=|\s+)(\S+)\s*/i;
+    const budget: AgentBudget = {};
+    let rest = text;
+    let match: RegExpMatchArray | null;
+
+    while ((match = rest.match(flagPattern))) {
+        const [, flag, value] = match;
+        // Invalid values are ignored rather than lifting the default limit
+        switch (flag.toLowerCase()) {
+            case 'max-tokens':
+                setLimit(budget, 'maxTokens', parseBudgetNumber(value));
+                break;
+            case 'max-cost':
+                setLimit(budget, 'maxCostUsd', parseBudgetNumber(value.replace(/^\$/, '')));
+                break;
+            case 'max-time':
+                setLimit(budget, 'maxDurationSeconds', parseDurationSeconds(value));
+                break;
+        }
+        rest = rest.slice(match[0].length);
+    }
+
+    return {
+        budget: Object.keys(budget).length > 0 ? budget : undefined,
+        prompt: rest
+    };
+}
+
+function setLimit(budget: AgentBudget, key: keyof AgentBudget, value: number | undefined) {
+    if (value !== undefined) {
+        budget[key] = value;
+    }
+}
+
+function parseBudgetNumber(value: string): number | undefined {
+    const parsed = parseFloat(value.replace(/[,_]/g, ''));
+    return isNaN(parsed) || parsed < 0 ? undefined : parsed;
+}
+
+function parseDurationSeconds(value: string): number | undefined {
+    const match = value.match(/^(\d+(?:\.\d+)?)(s|m|h)?$/i);
+    if (!match) {
+        return undefined;
+    }
+    const amount = parseFloat(match[1]);
+    switch ((match[2] || 'm').toLowerCase()) {
+        case 's':
+            return amount;
+        case 'h':
+            return amount * 3600;
+        default:
+            return amount * 60;
+    }
+}
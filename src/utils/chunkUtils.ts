@@ -0,0 +1,74 @@
+/**
+ * Utility functions for splitting long content into token-bounded chunks
+ * Used by LLMProcessingNode to map-reduce content that exceeds a model's context window
+ */
+
+import { estimateTokens } from './usageUtils';
+
+/**
+ * Separators tried in order: paragraphs, lines, sentences, words
+ */
+const CHUNK_SEPARATORS = ['\n\n', '\n', '. ', ' '];
+
+/**
+ * Split text into chunks of at most maxTokens (estimated) each
+ * Prefers paragraph boundaries, then lines, sentences and words; text without
+ * any separator is cut at the character limit as a last resort
+ */
+export function splitIntoChunks(text: string, maxTokens: number): string[] {
+    if (estimateTokens(text) <= maxTokens) {
+        return [text];
+    }
+    return splitRecursive(text, maxTokens, 0).filter(chunk => chunk.trim().length > 0);
+}
+
+function splitRecursive(text: string, maxTokens: number, separatorIndex: number): string[] {
+    if (estimateTokens(text) <= maxTokens) {
+        return [text];
+    }
+
+    if (separatorIndex >= CHUNK_SEPARATORS.length) {
+        // No separator left - hard cut by the ~4 characters per token estimate
+        const maxChars = maxTokens * 4;
+        const pieces: string[] = [];
+        for (let i = 0; i < text.length; i += maxChars) {
+            pieces.push(text.slice(i, i + maxChars));
+        }
+        return pieces;
+    }
+
+    const separator = CHUNK_SEPARATORS[separatorIndex];
+    const parts = text.split(separator);
+    if (parts.length === 1) {
+        return splitRecursive(text, maxTokens, separatorIndex + 1);
+    }
+
+    // Greedily pack parts into chunks, splitting oversized parts with the next separator
+    const chunks: string[] = [];
+    let current = '';
+
+    for (const part of parts) {
+        const candidate = current ? current + separator + part : part;
+        if (estimateTokens(candidate) <= maxTokens) {
+            current = candidate;
+            continue;
+        }
+
+        if (current) {
+            chunks.push(current);
+        }
+
+        if (estimateTokens(part) <= maxTokens) {
+            current = part;
+        } else {
+            chunks.push(...splitRecursive(part, maxTokens, separatorIndex + 1));
+            current = '';
+        }
+    }
+
+    if (current) {
+        chunks.push(current);
+    }
+
+    return chunks;
+}
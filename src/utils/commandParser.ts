@@ -6,6 +6,7 @@
  */
 
 import { ProcessingMode, ParsedCommand } from '../core/types';
+import { parseBudgetFlags } from './budgetUtils';
 
 /**
  * Parse command prefixes from user input
@@ -14,6 +15,8 @@ import { ProcessingMode, ParsedCommand } from '../core/types';
  * - "/chat Hello world" → { mode: CHAT, cleanPrompt: "Hello world", originalPrompt: "/chat Hello world" }
  * - "/agent Analyze this" → { mode: AGENT, cleanPrompt: "Analyze this", originalPrompt: "/agent Analyze this" }
  * - "/agent\nhttps://example.com\nAnalyze this" → { mode: AGENT, cleanPrompt: "https://example.com\nAnalyze this", originalPrompt: "..." }
+ * - "/agent --max-tokens 50000 Analyze this" → { mode: AGENT, cleanPrompt: "Analyze this", agentBudget: { maxTokens: 50000 }, ... }
+ * - "/agent:researcher Compare these papers" → { mode: AGENT, cleanPrompt: "Compare these papers", agentProfile: "researcher", ... }
  * - "Regular message" → { mode: null, cleanPrompt: "Regular message", originalPrompt: "Regular message" }
  */
 export function parseCommand(input: string): ParsedCommand {
@@ -21,7 +24,7 @@ export function parseCommand(input: string): ParsedCommand {
     
     // Check for command prefixes at the start of the message (support multiline)
     const chatCommandPattern = /^\/chat(?:\s+(.+))?$/mis;
-    const agentCommandPattern = /^\/agent(?:\s+(.+))?$/mis;
+    const agentCommandPattern = /^\/agent(?::(\S+))?(?:\s+(.+))?$/mis;
     
     // Test for /chat command
     const chatMatch = trimmedInput.match(chatCommandPattern);
@@ -37,11 +40,14 @@ export function parseCommand(input: string): ParsedCommand {
     // Test for /agent command
     const agentMatch = trimmedInput.match(agentCommandPattern);
     if (agentMatch) {
-        const cleanPrompt = agentMatch[1] ? agentMatch[1].trim() : '';
+        // Budget flags right after /agent override the settings for this run
+        const { budget, prompt } = parseBudgetFlags(agentMatch[2] ? agentMatch[2].trim() : '');
         return {
             mode: ProcessingMode.AGENT,
-            cleanPrompt,
-            originalPrompt: trimmedInput
+            cleanPrompt: prompt.trim(),
+            originalPrompt: trimmedInput,
+            agentBudget: budget,
+            agentProfile: agentMatch[1]
         };
     }
     
@@ -60,10 +66,13 @@ export function getCommandHelp(): string {
     return `Available commands:
 • /chat <message> - Process with Chat Mode (direct LLM)
 • /agent <message> - Process with Agent Mode (ReAct workflow)
+• /agent --max-tokens N --max-cost USD --max-time 10m <message> - Agent Mode with run budgets
+• /agent:<profile> <message> - Agent Mode with an agent profile (a note in the profiles folder)
 
 Examples:
 • /chat What is 2+2?
-• /agent Analyze this document and extract key insights`;
+• /agent Analyze this document and extract key insights
+• /agent:researcher Compare the latest papers on this topic`;
 }
 
 /**
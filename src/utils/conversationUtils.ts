@@ -0,0 +1,42 @@
+/**
+ * Utility functions for rebuilding conversation context from the local store
+ * Shared between Chat mode providers, the LLM Connector backend and Agent mode
+ */
+
+import { ConversationMessage } from '../core/types';
+import { estimateTokens } from './usageUtils';
+
+/**
+ * Keep the most recent messages that fit in maxTokens (estimated), oldest first
+ */
+export function trimHistory(messages: ConversationMessage[], maxTokens: number): ConversationMessage[] {
+    const kept: ConversationMessage[] = [];
+    let tokens = 0;
+
+    for (let i = messages.length - 1; i >= 0; i--) {
+        tokens += estimateTokens(messages[i].content);
+        if (tokens > maxTokens) {
+            break;
+        }
+        kept.unshift(messages[i]);
+    }
+
+    return kept;
+}
+
+/**
+ * Format messages as a plain transcript for prompts that take a single string
+ */
+export function formatTranscript(messages: ConversationMessage[]): string {
+    return messages
+        .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content}`)
+        .join('\n\n');
+}
+
+/**
+ * Build a short conversation title from its first prompt
+ */
+export function buildConversationTitle(prompt: string): string {
+    const firstLine = prompt.trim().split('\n')[0] || 'New conversation';
+    return firstLine.length > 60 ? firstLine.slice(0, 60) + '...' : firstLine;
+}
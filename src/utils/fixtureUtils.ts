@@ -0,0 +1,53 @@
+/**
+ * Utility functions for LLM call fixtures
+ * Shared between RecordingProvider and ReplayProvider
+ */
+
+import { createHash } from 'crypto';
+import { LLMFixture, LLMFixtureEntry, ProviderChatRequest } from '../agents/types';
+
+/**
+ * Build the lookup key of a call
+ * 13-digit numbers (Date.now() timestamps in history IDs) are normalized so a
+ * replayed run matches the recording even though its timestamps differ
+ */
+export function buildFixtureKey(method: LLMFixtureEntry['method'], model: string | undefined, input: Record<string, any>): string {
+    const normalized = JSON.stringify({ method, model, input }).replace(/\d{13}/g, '<timestamp>');
+    return createHash('sha256').update(normalized).digest('hex');
+}
+
+/**
+ * Describe a chat request for the fixture
+ * Images are summarized by count - data URLs would bloat the fixture
+ */
+export function buildChatFixtureInput(request: ProviderChatRequest): Record<string, any> {
+    return {
+        messages: request.messages.map(({ images, ...message }) => ({ ...message, imageCount: images?.length || 0 })),
+        jsonMode: request.jsonMode,
+        tools: request.tools?.map(tool => tool.function?.name || tool.name)
+    };
+}
+
+/**
+ * Read a fixture file
+ */
+export async function loadFixture(filePath: string): Promise<LLMFixture> {
+    const fs = require('fs').promises;
+    const fixture = JSON.parse(await fs.readFile(filePath, 'utf-8')) as LLMFixture;
+
+    if (fixture.version !== 1 || !Array.isArray(fixture.entries)) {
+        throw new Error(`Unsupported LLM fixture format: ${filePath}`);
+    }
+
+    return fixture;
+}
+
+/**
+ * Write a fixture file, creating its folder if needed
+ */
+export async function saveFixture(filePath: string, fixture: LLMFixture): Promise<void> {
+    const fs = require('fs').promises;
+    const path = require('path');
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, JSON.stringify(fixture, null, 2), 'utf-8');
+}
@@ -0,0 +1,12 @@
+/**
+ * Frontmatter helpers for notes read by the agent stores
+ */
+
+/**
+ * Removes the leading YAML frontmatter block of a note, if any
+ * @param content Note content
+ * @returns Note body without the frontmatter
+ */
+export function stripFrontmatter(content: string): string {
+    return content.replace(/^---\r?\n[\s\S]*?\r?\n---(?:\r?\n|$)/, '');
+}
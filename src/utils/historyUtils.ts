@@ -0,0 +1,56 @@
+/**
+ * Utility functions for keeping agent history out of the reasoning prompt
+ * Full step results stay in the action history, keyed by historyId; the prompt
+ * carries a bounded digest of each and the model reads more through read_result
+ */
+
+import { ActionResult } from '../agents/types';
+import { ToolCallError } from './actionErrorUtils';
+
+/**
+ * Built-in tool the reasoning model uses to read a stored result (handled by ReActActionNode)
+ */
+export const INTERNAL_SERVER = 'internal';
+export const READ_RESULT_TOOL = 'read_result';
+
+/**
+ * Most characters a single read_result call returns
+ */
+export const MAX_READ_CHARS = 8000;
+
+/**
+ * Shorten a result to at most maxChars, keeping its beginning and end
+ * The marker in the middle tells the model how to read the omitted part
+ */
+export function digestResult(result: string, maxChars: number): string {
+    if (result.length <= maxChars) {
+        return result;
+    }
+
+    const headChars = Math.floor(maxChars * 2 / 3);
+    const tailChars = maxChars - headChars;
+    const omitted = result.length - headChars - tailChars;
+    return `${result.slice(0, headChars)}\n… [${omitted} of ${result.length} chars omitted - use ${READ_RESULT_TOOL} with offset ${headChars} to read them] …\n${result.slice(result.length - tailChars)}`;
+}
+
+/**
+ * Read a slice of a stored result by historyId
+ * Returns the text with a header giving its position; throws a validation ToolCallError for unknown IDs
+ */
+export function readResultSlice(history: ActionResult[], historyId: string, offset: number = 0, length: number = MAX_READ_CHARS): string {
+    const entry = history.find(h => h.historyId === historyId);
+    if (!entry) {
+        const knownIds = history.map(h => h.historyId).join(', ') || 'none';
+        throw new ToolCallError('validation', `No result with history ID "${historyId}". Known IDs: ${knownIds}`);
+    }
+
+    const total = entry.result.length;
+    const start = Math.min(Math.max(0, Math.floor(offset) || 0), total);
+    const end = Math.min(total, start + Math.min(Math.max(1, Math.floor(length) || MAX_READ_CHARS), MAX_READ_CHARS));
+
+    let slice = `[${historyId}: chars ${start}-${end} of ${total}]\n${entry.result.slice(start, end)}`;
+    if (end < total) {
+        slice += `\n[${total - end} more chars - continue with offset ${end}]`;
+    }
+    return slice;
+}
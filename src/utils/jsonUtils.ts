@@ -0,0 +1,160 @@
+/**
+ * JSON helpers for parsing structured output returned by LLMs
+ * Shared between all LLM providers so schema calls behave the same everywhere
+ */
+
+import Ajv, { ValidateFunction } from 'ajv';
+
+/**
+ * Extract the JSON payload from an LLM response
+ * Strips ```json fences and surrounding prose that models like to add
+ */
+export function extractJsonText(text: string): string {
+    let jsonStr = text;
+
+    if (jsonStr.includes('```json')) {
+        const parts = jsonStr.split('```json');
+        if (parts.length > 1) {
+            const jsonPart = parts[1].split('```')[0];
+            if (jsonPart) {
+                jsonStr = jsonPart.trim();
+            }
+        }
+    } else if (jsonStr.includes('```')) {
+        const parts = jsonStr.split('```');
+        if (parts.length > 2) {
+            jsonStr = parts[1].trim();
+        }
+    }
+
+    // Prose before or after an object: keep the outermost {...}
+    jsonStr = jsonStr.trim();
+    const start = jsonStr.indexOf('{');
+    const end = jsonStr.lastIndexOf('}');
+    if (!jsonStr.startsWith('[') && start !== -1 && end > start) {
+        jsonStr = jsonStr.slice(start, end + 1);
+    }
+
+    return jsonStr;
+}
+
+/**
+ * Build the schema instructions appended to prompts for structured output
+ */
+export function buildSchemaPrompt(prompt: string, schema: any): string {
+    const schemaJson = JSON.stringify(schema, null, 2);
+    return `${prompt}
+
+Please format your response as a valid JSON object conforming to the following schema:
+${schemaJson}
+
+Only return valid JSON, nothing else.`;
+}
+
+/**
+ * Error thrown when an LLM response does not conform to the requested JSON Schema
+ * Carries the individual validation messages so they can be fed back to the model
+ */
+export class SchemaValidationError extends Error {
+    constructor(public errors: string[]) {
+        super(`Response does not match schema:\n- ${errors.join('\n- ')}`);
+        this.name = 'SchemaValidationError';
+    }
+}
+
+const ajv = new Ajv({ allErrors: true, strict: false });
+const compiledSchemas = new Map<string, ValidateFunction>();
+
+// Coerces obvious mismatches in place ("5" -> 5, "true" -> true, "a" -> ["a"])
+const coercingAjv = new Ajv({ allErrors: true, strict: false, coerceTypes: 'array' });
+const compiledCoercingSchemas = new Map<string, ValidateFunction>();
+
+/**
+ * Validate a value against a JSON Schema, returning readable error messages (empty when valid)
+ * Compiled validators are cached by schema content, since nodes build a fresh schema object per call
+ */
+export function validateJsonSchema(value: any, schema: any): string[] {
+    const cacheKey = JSON.stringify(schema);
+    let validate = compiledSchemas.get(cacheKey);
+    if (!validate) {
+        validate = ajv.compile(schema);
+        compiledSchemas.set(cacheKey, validate);
+    }
+
+    if (validate(value)) {
+        return [];
+    }
+
+    return formatSchemaErrors(validate);
+}
+
+/**
+ * Validate a value against a JSON Schema, coercing obvious type mismatches first
+ * Returns the coerced copy (the input is not modified) and readable error messages (empty when valid).
+ * Schemas that cannot be compiled (e.g. unsupported drafts) are not enforced.
+ */
+export function coerceToJsonSchema(value: any, schema: any): { value: any; errors: string[] } {
+    const cacheKey = JSON.stringify(schema);
+    let validate = compiledCoercingSchemas.get(cacheKey);
+    if (!validate) {
+        try {
+            // The $schema draft URI is often one Ajv's default build does not know
+            const { $schema, ...schemaBody } = schema;
+            validate = coercingAjv.compile(schemaBody);
+        } catch (error) {
+            console.warn('⚠️ Cannot compile JSON Schema, skipping validation:', error);
+            return { value, errors: [] };
+        }
+        compiledCoercingSchemas.set(cacheKey, validate);
+    }
+
+    const coerced = value === undefined ? {} : JSON.parse(JSON.stringify(value));
+    return { value: coerced, errors: validate(coerced) ? [] : formatSchemaErrors(validate) };
+}
+
+function formatSchemaErrors(validate: ValidateFunction): string[] {
+    // "must match then schema" only repeats the concrete errors reported alongside it
+    return (validate.errors || []).filter(error => error.keyword !== 'if').map(error => {
+        const path = error.instancePath || '(root)';
+        const params: any = error.params;
+        let message = `${path} ${error.message}`;
+        if (params?.allowedValues) {
+            message += `: ${params.allowedValues.map((v: any) => JSON.stringify(v)).join(', ')}`;
+        } else if (params?.additionalProperty) {
+            message += `: "${params.additionalProperty}"`;
+        }
+        return message;
+    });
+}
+
+/**
+ * Parse an LLM response and validate it against the schema
+ * Throws SyntaxError for invalid JSON and SchemaValidationError for schema violations
+ */
+export function parseJsonWithSchema(text: string, schema: any): any {
+    const parsed = JSON.parse(extractJsonText(text));
+    const errors = validateJsonSchema(parsed, schema);
+    if (errors.length > 0) {
+        throw new SchemaValidationError(errors);
+    }
+    return parsed;
+}
+
+/**
+ * Build a follow-up prompt asking the model to fix its previous structured output
+ */
+export function buildSchemaRepairPrompt(schemaPrompt: string, invalidOutput: string, error: unknown): string {
+    const problems = error instanceof SchemaValidationError
+        ? error.errors.map(e => `- ${e}`).join('\n')
+        : `- Invalid JSON: ${error instanceof Error ? error.message : String(error)}`;
+
+    return `${schemaPrompt}
+
+Your previous response was:
+${invalidOutput}
+
+It was rejected for the following reasons:
+${problems}
+
+Return a corrected JSON object that fixes every problem above. Only return valid JSON, nothing else.`;
+}
@@ -0,0 +1,97 @@
+/**
+ * Utility functions for the agent's long-term memory
+ * Memories are short facts kept between runs; the relevant ones are recalled at the
+ * start of a run and the model manages them with the built-in remember/recall/forget tools
+ */
+
+import { AgentMemoryEntry } from '../agents/types';
+
+/**
+ * Built-in memory tools (handled by ReActActionNode on the internal server)
+ */
+export const REMEMBER_TOOL = 'remember';
+export const RECALL_TOOL = 'recall';
+export const FORGET_TOOL = 'forget';
+
+/**
+ * Memories recalled into the reasoning prompt at the start of a run
+ */
+export const MAX_RECALLED_MEMORIES = 8;
+
+/**
+ * Words too common to tell memories apart
+ */
+const STOP_WORDS = new Set([
+    'the', 'and', 'for', 'are', 'but', 'not', 'you', 'all', 'any', 'can', 'her', 'was', 'one', 'our', 'out',
+    'has', 'have', 'his', 'how', 'its', 'may', 'new', 'now', 'see', 'who', 'did', 'get', 'let', 'put', 'say',
+    'she', 'too', 'use', 'this', 'that', 'with', 'from', 'into', 'your', 'what', 'when', 'where', 'which',
+    'will', 'would', 'should', 'could', 'about', 'there', 'their', 'them', 'then', 'than', 'please', 'make'
+]);
+
+/**
+ * Split text into lowercase search terms
+ */
+export function getMemoryTerms(text: string): string[] {
+    return text.toLowerCase()
+        .split(/[^a-z0-9\u00c0-\uffff_-]+/)
+        .filter(term => term.length > 2 && !STOP_WORDS.has(term));
+}
+
+/**
+ * Rank memories by how many of the query's terms they mention (tags count double)
+ * Memories sharing no term with the query are dropped; ties go to the most recently updated
+ */
+export function rankMemories(memories: AgentMemoryEntry[], query: string, limit: number = MAX_RECALLED_MEMORIES): AgentMemoryEntry[] {
+    const queryTerms = new Set(getMemoryTerms(query));
+    if (queryTerms.size === 0) {
+        return [];
+    }
+
+    return memories
+        .map(memory => {
+            const contentTerms = new Set(getMemoryTerms(memory.content));
+            const tagTerms = new Set(getMemoryTerms((memory.tags || []).join(' ')));
+            let score = 0;
+            queryTerms.forEach(term => {
+                if (mentionsTerm(contentTerms, term)) score += 1;
+                if (mentionsTerm(tagTerms, term)) score += 2;
+            });
+            return { memory, score };
+        })
+        .filter(ranked => ranked.score > 0)
+        .sort((a, b) => b.score - a.score || b.memory.updatedAt - a.memory.updatedAt)
+        .slice(0, limit)
+        .map(ranked => ranked.memory);
+}
+
+/**
+ * Whether a set of terms contains the term or a word starting with it ("podcast" matches "podcasts")
+ */
+function mentionsTerm(terms: Set<string>, term: string): boolean {
+    return terms.has(term) || Array.from(terms).some(t => t.startsWith(term));
+}
+
+/**
+ * Format memories for the reasoning prompt or a recall result, one per line with its ID
+ */
+export function formatMemories(memories: AgentMemoryEntry[]): string {
+    return memories.map(memory => {
+        const tags = memory.tags && memory.tags.length > 0 ? ` (tags: ${memory.tags.join(', ')})` : '';
+        return `- [${memory.id}] ${memory.content.replace(/\s*\n\s*/g, ' ')}${tags}`;
+    }).join('\n');
+}
+
+/**
+ * Build a memory ID (note name) from its content: the first few words, without characters
+ * that are not allowed in note names or links
+ */
+export function buildMemoryId(content: string): string {
+    const words = content
+        .replace(/[\\/:*?"<>|#^[\]]/g, '')
+        .trim()
+        .split(/\s+/)
+        .slice(0, 8)
+        .join(' ');
+    const id = words.length > 60 ? words.slice(0, 60).trim() : words;
+    return id || 'Memory';
+}
@@ -0,0 +1,28 @@
+/**
+ * Helpers for reading model capability metadata
+ * Capabilities that are not declared are assumed to be supported, so existing
+ * model definitions without metadata keep working as before
+ */
+
+import { ModelDefinition } from '../core/types';
+
+/**
+ * Check if a model accepts image input
+ */
+export function supportsVision(model?: ModelDefinition): boolean {
+    return model?.capabilities?.vision !== false;
+}
+
+/**
+ * Check if a model supports structured (JSON) output
+ */
+export function supportsJsonMode(model?: ModelDefinition): boolean {
+    return model?.capabilities?.jsonMode !== false;
+}
+
+/**
+ * Check if a model supports native function calling
+ */
+export function supportsToolCalling(model?: ModelDefinition): boolean {
+    return model?.capabilities?.toolCalling !== false;
+}
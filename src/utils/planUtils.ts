@@ -0,0 +1,57 @@
+/**
+ * Utility functions for the plan-and-execute agent mode
+ * Shared by the planning node, the reasoning node and the chat checklist
+ */
+
+import { PlanItem, PlanItemStatus, PlanItemUpdate } from '../agents/types';
+
+/**
+ * Most steps a plan (drafted or revised) may have
+ */
+export const MAX_PLAN_ITEMS = 10;
+
+const STATUS_ICONS: Record<PlanItemStatus, string> = {
+    pending: '⬜',
+    done: '✅',
+    failed: '❌',
+    skipped: '⏭️'
+};
+
+/**
+ * Create a plan from step descriptions, numbered from 1, with blank steps dropped
+ */
+export function createPlan(steps: string[]): PlanItem[] {
+    return steps
+        .map(step => step.trim())
+        .filter(step => step.length > 0)
+        .map((description, index) => ({ id: index + 1, description, status: 'pending' }));
+}
+
+/**
+ * Apply a reasoning step's plan changes
+ * Updates set the status of the given items; a revised plan replaces every unfinished
+ * item (finished ones stay, so the checklist keeps its history) and is applied last.
+ * Returns the plan unchanged when there is nothing to apply.
+ */
+export function applyPlanUpdates(plan: PlanItem[], updates?: PlanItemUpdate[], revisedPlan?: string[]): PlanItem[] {
+    let updated = plan.map(item => {
+        const update = updates?.find(u => u.id === item.id);
+        return update ? { ...item, status: update.status } : item;
+    });
+
+    if (revisedPlan && revisedPlan.length > 0) {
+        const finished = updated.filter(item => item.status !== 'pending');
+        const nextId = Math.max(0, ...updated.map(item => item.id)) + 1;
+        const remaining = createPlan(revisedPlan).map((item, index) => ({ ...item, id: nextId + index }));
+        updated = [...finished, ...remaining];
+    }
+
+    return updated;
+}
+
+/**
+ * Format a plan as a checklist for the chat and the reasoning prompt
+ */
+export function formatPlanChecklist(plan: PlanItem[]): string {
+    return plan.map(item => `${STATUS_ICONS[item.status]} ${item.id}. ${item.description}${item.status === 'pending' ? '' : ` (${item.status})`}`).join('\n');
+}
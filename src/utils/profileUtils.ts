@@ -0,0 +1,124 @@
+/**
+ * Utility functions for agent profiles
+ * A profile note's frontmatter picks the tools, models, step limit and media
+ * decisions of a run; its body is a preamble for the agent's prompts
+ */
+
+import { AgentMediaDecision, AgentProfile, MCPTool, ModelConfig } from '../agents/types';
+
+/**
+ * Names accepted in a profile's "media" list for each media decision
+ */
+const MEDIA_DECISION_NAMES: Record<string, AgentMediaDecision> = {
+    image: 'process_image',
+    images: 'process_image',
+    process_image: 'process_image',
+    speech: 'generate_speech',
+    audio: 'generate_speech',
+    tts: 'generate_speech',
+    generate_speech: 'generate_speech'
+};
+
+/**
+ * Build a profile from a note's name, frontmatter and body
+ *
+ * Frontmatter keys: name, description, servers, tools, model (both roles),
+ * reasoningModel, processingModel, maxSteps and media (e.g. [image, speech]; [] disables both)
+ */
+export function parseAgentProfile(id: string, frontmatter: Record<string, any> = {}, body: string = ''): AgentProfile {
+    const model = toText(frontmatter.model);
+    const maxSteps = Number(frontmatter.maxSteps);
+    const media = frontmatter.media !== undefined ? toList(frontmatter.media) : undefined;
+
+    return {
+        id,
+        name: toText(frontmatter.name) || id,
+        description: toText(frontmatter.description),
+        systemPrompt: body.trim() || undefined,
+        servers: frontmatter.servers !== undefined ? toList(frontmatter.servers) : undefined,
+        tools: frontmatter.tools !== undefined ? toList(frontmatter.tools) : undefined,
+        reasoningModel: toText(frontmatter.reasoningModel) || model,
+        processingModel: toText(frontmatter.processingModel) || model,
+        maxSteps: Number.isInteger(maxSteps) && maxSteps > 0 ? maxSteps : undefined,
+        mediaDecisions: media
+            ? Array.from(new Set(media.map(name => MEDIA_DECISION_NAMES[name.toLowerCase()]).filter(Boolean)))
+            : undefined
+    };
+}
+
+/**
+ * Find a profile by note name or display name, ignoring case, spaces, dashes and underscores
+ * ("/agent:vault-librarian" selects "Vault Librarian")
+ */
+export function findAgentProfile(profiles: AgentProfile[], ref: string): AgentProfile | undefined {
+    const key = getProfileKey(ref);
+    return profiles.find(profile => getProfileKey(profile.id) === key)
+        || profiles.find(profile => getProfileKey(profile.name) === key);
+}
+
+/**
+ * Whether a profile allows a tool; no profile allows everything
+ */
+export function isToolAllowedByProfile(profile: AgentProfile | undefined, server: string, tool: string): boolean {
+    if (!profile) {
+        return true;
+    }
+    if (profile.servers && !profile.servers.includes(server)) {
+        return false;
+    }
+    return !profile.tools || profile.tools.includes(`${server}/${tool}`) || profile.tools.includes(tool);
+}
+
+/**
+ * Keep the tools a profile allows
+ */
+export function filterProfileTools(tools: MCPTool[], profile?: AgentProfile): MCPTool[] {
+    return profile ? tools.filter(tool => isToolAllowedByProfile(profile, tool.server, tool.name)) : tools;
+}
+
+/**
+ * Whether a media decision is enabled; non-media decisions always are
+ */
+export function isDecisionEnabled(profile: AgentProfile | undefined, decision: string): boolean {
+    if (!profile?.mediaDecisions || !Object.values(MEDIA_DECISION_NAMES).includes(decision as AgentMediaDecision)) {
+        return true;
+    }
+    return profile.mediaDecisions.includes(decision as AgentMediaDecision);
+}
+
+/**
+ * Apply a profile's models on top of the configured agent models
+ */
+export function applyProfileModels(modelConfig: ModelConfig, profile?: AgentProfile): ModelConfig {
+    if (!profile) {
+        return modelConfig;
+    }
+    return {
+        ...modelConfig,
+        reasoning: profile.reasoningModel || modelConfig.reasoning,
+        processing: profile.processingModel || modelConfig.processing
+    };
+}
+
+/**
+ * Prompt section with the profile's preamble, or '' without a profile
+ */
+export function formatProfilePreamble(profile?: AgentProfile): string {
+    if (!profile?.systemPrompt) {
+        return '';
+    }
+    return `## Agent Profile: ${profile.name}\n${profile.systemPrompt}\n\n`;
+}
+
+function getProfileKey(ref: string): string {
+    return ref.trim().replace(/\.md$/, '').toLowerCase().replace(/[\s_-]+/g, '');
+}
+
+function toText(value: any): string | undefined {
+    return typeof value === 'string' && value.trim() ? value.trim() : typeof value === 'number' ? String(value) : undefined;
+}
+
+function toList(value: any): string[] {
+    const items = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+    return items.map(item => String(item).trim()).filter(Boolean);
+}
@@ -67,6 +67,23 @@ export function shouldRetry(error: any, retryOnStatus: number[]): boolean {
     return false;
 }
 
+/**
+ * Check if an error should move a request on to the next model in its fallback chain
+ * (rate limits and server errors that persisted through retries)
+ */
+export function shouldFallback(error: any): boolean {
+    // Errors may be wrapped by createLLMError (possibly more than once)
+    let current = error;
+    while (current) {
+        const status = current.response?.status;
+        if (status) {
+            return status === 429 || (status >= 500 && status < 600);
+        }
+        current = current.originalError;
+    }
+    return false;
+}
+
 /**
  * Sleep utility function
  */
@@ -76,11 +93,14 @@ export function sleep(ms: number): Promise<void> {
 
 /**
  * Execute an async operation with exponential backoff retry
+ * Each attempt gets an AbortSignal that fires when the attempt times out or `signal`
+ * is aborted; pass it to fetch/stream readers so a timed-out attempt actually stops
  */
 export async function withRetry<T>(
-    operation: () => Promise<T>,
+    operation: (signal: AbortSignal) => Promise<T>,
     options: Partial<RetryOptions> = {},
-    operationName: string = 'API call'
+    operationName: string = 'API call',
+    signal?: AbortSignal
 ): Promise<RetryResult<T>> {
     const config = { ...DEFAULT_RETRY_OPTIONS, ...options };
     const startTime = Date.now();
@@ -90,13 +110,31 @@ export async function withRetry<T>(
         try {
             console.log(`🔄 ${operationName}: Attempt ${attempt}/${config.maxRetries + 1}`);
             
+            // Attempt signal: aborted by the caller's signal or by the timeout
+            const controller = new AbortController();
+            const abortAttempt = () => controller.abort();
+            signal?.addEventListener('abort', abortAttempt, { once: true });
+            if (signal?.aborted) {
+                controller.abort();
+            }
+            
             // Create timeout promise
+            let timeoutId: ReturnType<typeof setTimeout> | undefined;
             const timeoutPromise = new Promise<never>((_, reject) => {
-                setTimeout(() => reject(new Error(`Operation timeout after ${config.timeoutMs}ms`)), config.timeoutMs);
+                timeoutId = setTimeout(() => {
+                    controller.abort();
+                    reject(new Error(`Operation timeout after ${config.timeoutMs}ms`));
+                }, config.timeoutMs);
             });
             
             // Race between operation and timeout
-            const result = await Promise.race([operation(), timeoutPromise]);
+            let result: T;
+            try {
+                result = await Promise.race([operation(controller.signal), timeoutPromise]);
+            } finally {
+                clearTimeout(timeoutId);
+                signal?.removeEventListener('abort', abortAttempt);
+            }
             
             const totalTime = Date.now() - startTime;
             console.log(`✅ ${operationName}: Succeeded on attempt ${attempt} (${totalTime}ms total)`);
@@ -156,8 +194,8 @@ export async function withHttpRetry(
     options: Partial<RetryOptions> = {},
     operationName: string = 'HTTP request'
 ): Promise<RetryResult<Response>> {
-    return withRetry(async () => {
-        const response = await fetch(url, fetchOptions);
+    return withRetry(async (signal) => {
+        const response = await fetch(url, { ...fetchOptions, signal });
         
         // Check if response status should trigger retry
         if (!response.ok && options.retryOnStatus?.includes(response.status)) {
@@ -171,7 +209,7 @@ export async function withHttpRetry(
         }
         
         return response;
-    }, options, operationName);
+    }, options, operationName, fetchOptions.signal || undefined);
 }
 
 /**
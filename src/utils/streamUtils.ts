@@ -0,0 +1,96 @@
+/**
+ * Utilities for reading streaming HTTP responses (chunked text and Server-Sent Events)
+ * Shared between the LLM Connector backend and native providers for token streaming
+ */
+
+/**
+ * Check if a response is a Server-Sent Events stream
+ */
+export function isEventStream(response: Response): boolean {
+    return (response.headers.get('content-type') || '').includes('text/event-stream');
+}
+
+/**
+ * Check if a response is a JSON document (i.e. the server did not stream)
+ */
+export function isJsonResponse(response: Response): boolean {
+    return (response.headers.get('content-type') || '').includes('application/json');
+}
+
+/**
+ * Read a response body chunk by chunk as decoded text
+ * Aborting the request's signal rejects the pending read with an AbortError
+ */
+export async function readResponseStream(response: Response, onChunk: (text: string) => void): Promise<void> {
+    if (!response.body) {
+        const text = await response.text();
+        if (text) {
+            onChunk(text);
+        }
+        return;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+
+    while (true) {
+        const { done, value } = await reader.read();
+        if (done) {
+            break;
+        }
+        const text = decoder.decode(value, { stream: true });
+        if (text) {
+            onChunk(text);
+        }
+    }
+
+    const remaining = decoder.decode();
+    if (remaining) {
+        onChunk(remaining);
+    }
+}
+
+/**
+ * Read a Server-Sent Events response, calling onData with each event's data payload
+ * Stops dispatching at the OpenAI-style "[DONE]" sentinel
+ */
+export async function readSSEStream(response: Response, onData: (data: string) => void): Promise<void> {
+    let buffer = '';
+    let dataLines: string[] = [];
+    let finished = false;
+
+    const dispatch = () => {
+        if (dataLines.length === 0 || finished) {
+            dataLines = [];
+            return;
+        }
+        const data = dataLines.join('\n');
+        dataLines = [];
+        if (data === '[DONE]') {
+            finished = true;
+            return;
+        }
+        onData(data);
+    };
+
+    const processLine = (line: string) => {
+        if (line === '') {
+            dispatch();
+        } else if (line.startsWith('data:')) {
+            dataLines.push(line.slice(5).replace(/^ /, ''));
+        }
+        // Comments (":") and other fields (event, id, retry) are not needed here
+    };
+
+    await readResponseStream(response, chunk => {
+        buffer += chunk;
+        const lines = buffer.split(/\r?\n/);
+        buffer = lines.pop() || '';
+        lines.forEach(processLine);
+    });
+
+    if (buffer) {
+        processLine(buffer);
+    }
+    dispatch();
+}
@@ -0,0 +1,61 @@
+/**
+ * Utility functions for agent tool approval policies
+ */
+
+import { ToolApprovalPolicy, ToolApprovalSettings } from '../core/types';
+
+const POLICIES: ToolApprovalPolicy[] = ['allow', 'ask', 'deny'];
+
+/**
+ * Resolve the policy for a tool call
+ * Most specific wins: "server/tool", then tool name, then server, then the tool's
+ * built-in policy (e.g. "ask" for vault writes), then the default
+ */
+export function resolveToolPolicy(
+    settings: ToolApprovalSettings | undefined,
+    server: string,
+    tool: string,
+    builtInPolicy?: ToolApprovalPolicy
+): ToolApprovalPolicy {
+    return settings?.tools?.[`${server}/${tool}`]
+        || settings?.tools?.[tool]
+        || settings?.servers?.[server]
+        || builtInPolicy
+        || settings?.defaultPolicy
+        || 'allow';
+}
+
+/**
+ * Parse per-tool policies from "tool: policy" lines (tool may be "server/tool")
+ * Blank lines, comments (#) and lines with an unknown policy are skipped
+ */
+export function parseToolPolicies(text: string): Record<string, ToolApprovalPolicy> {
+    const policies: Record<string, ToolApprovalPolicy> = {};
+
+    for (const line of text.split('\n')) {
+        const trimmed = line.trim();
+        if (!trimmed || trimmed.startsWith('#')) {
+            continue;
+        }
+
+        const separator = trimmed.lastIndexOf(':');
+        if (separator === -1) {
+            continue;
+        }
+
+        const tool = trimmed.slice(0, separator).trim();
+        const policy = trimmed.slice(separator + 1).trim().toLowerCase() as ToolApprovalPolicy;
+        if (tool && POLICIES.includes(policy)) {
+            policies[tool] = policy;
+        }
+    }
+
+    return policies;
+}
+
+/**
+ * Format per-tool policies as "tool: policy" lines
+ */
+export function formatToolPolicies(policies: Record<string, ToolApprovalPolicy>): string {
+    return Object.entries(policies).map(([tool, policy]) => `${tool}: ${policy}`).join('\n');
+}
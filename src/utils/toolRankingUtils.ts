@@ -0,0 +1,162 @@
+/**
+ * Utility functions for ranking tools by relevance (BM25)
+ * With several MCP servers connected the tool catalog runs to hundreds of entries;
+ * the agent's prompts list only the tools most relevant to the task at hand
+ */
+
+import { MCPTool, ToolRanker } from '../agents/types';
+
+/**
+ * Built-in tool for searching the tools left out of the prompt (handled by ReActActionNode)
+ */
+export const LIST_TOOLS_TOOL = 'list_tools';
+
+/**
+ * Tools listed in a prompt when the catalog is ranked
+ */
+export const TOOL_SHORTLIST_SIZE = 15;
+
+/**
+ * Tools returned by one list_tools call (default and maximum)
+ */
+export const DEFAULT_LISTED_TOOLS = 20;
+export const MAX_LISTED_TOOLS = 50;
+
+/**
+ * Catalogs up to this size are listed in full
+ */
+export const MAX_UNRANKED_TOOLS = 25;
+
+// BM25 parameters (standard values)
+const K1 = 1.2;
+const B = 0.75;
+
+// Weights of each part of a tool's description in its document
+const NAME_WEIGHT = 3;
+const SERVER_WEIGHT = 2;
+
+const STOP_WORDS = new Set([
+    'a', 'an', 'the', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'with', 'by', 'from', 'at', 'as', 'is', 'are',
+    'be', 'it', 'its', 'this', 'that', 'these', 'those', 'can', 'will', 'should', 'would', 'i', 'me', 'my', 'you',
+    'your', 'we', 'our', 'please', 'use', 'using', 'given', 'if', 'not', 'no', 'do', 'does', 'into', 'about',
+    'http', 'https', 'www', 'com'
+]);
+
+/**
+ * Split text into search terms: camelCase and snake_case are split, words lowercased
+ * and plurals folded ("getTranscripts" -> "get", "transcript")
+ */
+export function tokenizeForRanking(text: string): string[] {
+    return text
+        .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+        .toLowerCase()
+        .split(/[^a-z0-9\u00c0-\uffff]+/)
+        .filter(term => term.length > 1 && !STOP_WORDS.has(term))
+        .map(term => term.length > 3 && term.endsWith('s') && !term.endsWith('ss') ? term.slice(0, -1) : term);
+}
+
+/**
+ * Unique key of a tool across servers
+ */
+export function getToolKey(tool: { server: string; name: string }): string {
+    return `${tool.server}/${tool.name}`;
+}
+
+/**
+ * BM25 index over tool names, server names, descriptions and parameter schemas
+ */
+export class ToolIndex implements ToolRanker {
+    private documents: { tool: MCPTool; termCounts: Map<string, number>; length: number }[];
+    private documentFrequency = new Map<string, number>();
+    private averageLength: number;
+
+    constructor(tools: MCPTool[]) {
+        this.documents = tools.map(tool => {
+            const terms = this.getToolTerms(tool);
+            const termCounts = new Map<string, number>();
+            terms.forEach(term => termCounts.set(term, (termCounts.get(term) || 0) + 1));
+            termCounts.forEach((_, term) => this.documentFrequency.set(term, (this.documentFrequency.get(term) || 0) + 1));
+            return { tool, termCounts, length: terms.length };
+        });
+        this.averageLength = this.documents.reduce((sum, doc) => sum + doc.length, 0) / Math.max(1, this.documents.length);
+    }
+
+    get size(): number {
+        return this.documents.length;
+    }
+
+    /**
+     * Rank tools against a query, best first; tools matching no query term are left out
+     */
+    search(query: string, limit: number = TOOL_SHORTLIST_SIZE): MCPTool[] {
+        const queryTerms = Array.from(new Set(tokenizeForRanking(query)));
+        const total = this.documents.length;
+
+        return this.documents
+            .map(doc => {
+                let score = 0;
+                for (const term of queryTerms) {
+                    const frequency = doc.termCounts.get(term);
+                    if (!frequency) {
+                        continue;
+                    }
+                    const df = this.documentFrequency.get(term) || 0;
+                    const idf = Math.log(1 + (total - df + 0.5) / (df + 0.5));
+                    score += idf * (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * doc.length / this.averageLength));
+                }
+                return { tool: doc.tool, score };
+            })
+            .filter(ranked => ranked.score > 0)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit)
+            .map(ranked => ranked.tool);
+    }
+
+    private getToolTerms(tool: MCPTool): string[] {
+        const nameTerms = tokenizeForRanking(tool.name);
+        const serverTerms = tokenizeForRanking(tool.server);
+        const terms: string[] = [];
+        for (let i = 0; i < NAME_WEIGHT; i++) {
+            terms.push(...nameTerms);
+        }
+        for (let i = 0; i < SERVER_WEIGHT; i++) {
+            terms.push(...serverTerms);
+        }
+        terms.push(...tokenizeForRanking(tool.description || ''));
+
+        const properties = tool.inputSchema?.properties || {};
+        for (const [name, property] of Object.entries<any>(properties)) {
+            terms.push(...tokenizeForRanking(name));
+            if (typeof property?.description === 'string') {
+                terms.push(...tokenizeForRanking(property.description));
+            }
+        }
+        return terms;
+    }
+}
+
+/**
+ * Pick the tools to list in a prompt: the best matches for the query, plus tools
+ * that must stay visible (e.g. already used, or found with list_tools), in catalog order
+ */
+export function selectPromptTools(tools: MCPTool[], index: ToolRanker | undefined, query: string, keepKeys: string[] = [], limit: number = TOOL_SHORTLIST_SIZE): MCPTool[] {
+    if (!index) {
+        return tools;
+    }
+
+    const selected = new Set(index.search(query, limit).map(getToolKey));
+    keepKeys.forEach(key => selected.add(key));
+    return tools.filter(tool => selected.has(getToolKey(tool)));
+}
+
+/**
+ * Format tools for a list_tools result: name, server, description and parameters
+ */
+export function formatToolList(tools: MCPTool[]): string {
+    return tools.map(tool => {
+        const schema = tool.inputSchema || {};
+        const required: string[] = Array.isArray(schema.required) ? schema.required : [];
+        const params = Object.keys(schema.properties || {}).map(name => `"${name}"${required.includes(name) ? ' (required)' : ''}`);
+        return `- ${tool.name} (SERVER: ${tool.server}): ${tool.description}${params.length > 0 ? `\n  Parameters: {${params.join(', ')}}` : ''}`;
+    }).join('\n');
+}
@@ -0,0 +1,158 @@
+/**
+ * Utility functions for exporting an agent run trace as a markdown note
+ * The note lists every step's reasoning and tool calls so a run can be audited and shared
+ */
+
+import { ActionResult, AgentRunTrace } from '../agents/types';
+import { buildConversationTitle } from './conversationUtils';
+import { formatPlanChecklist } from './planUtils';
+import { formatUsage } from './usageUtils';
+
+/**
+ * Format a duration in milliseconds for display (e.g. "850 ms", "12.4 s", "3m 05s")
+ */
+export function formatDuration(ms: number): string {
+    if (ms < 1000) {
+        return `${Math.round(ms)} ms`;
+    }
+    if (ms < 60000) {
+        return `${(ms / 1000).toFixed(1)} s`;
+    }
+    const minutes = Math.floor(ms / 60000);
+    const seconds = Math.round((ms % 60000) / 1000);
+    return `${minutes}m ${String(seconds).padStart(2, '0')}s`;
+}
+
+/**
+ * Build a note file name for a run trace from its start time
+ * A resumed run keeps its start time, so later exports pass a copy number ("... (2).md")
+ */
+export function buildTraceNoteName(trace: AgentRunTrace, copy: number = 1): string {
+    const started = new Date(trace.startTime);
+    const pad = (n: number) => String(n).padStart(2, '0');
+    const stamp = `${started.getFullYear()}-${pad(started.getMonth() + 1)}-${pad(started.getDate())} ${pad(started.getHours())}${pad(started.getMinutes())}${pad(started.getSeconds())}`;
+    // Characters not allowed in note names on some platforms or in links
+    const title = buildConversationTitle(trace.userRequest).replace(/[\\/:*?"<>|#^[\]]/g, '').trim();
+    return `Agent Run ${stamp}${title ? ` - ${title}` : ''}${copy > 1 ? ` (${copy})` : ''}.md`;
+}
+
+/**
+ * Render a run trace as markdown: request, summary, per-step reasoning and tool calls
+ * (in collapsible callouts with full parameters and results), media links and final answer
+ */
+export function formatAgentTrace(trace: AgentRunTrace): string {
+    const actions = trace.actionHistory.filter(action => action.stepType !== 'user_input');
+    const failedCount = actions.filter(action => !action.success).length;
+    const lines: string[] = [];
+
+    lines.push('---');
+    lines.push('type: agent-run');
+    if (trace.runId) {
+        lines.push(`run_id: ${trace.runId}`);
+    }
+    lines.push(`status: ${trace.status}`);
+    lines.push(`started: ${new Date(trace.startTime).toISOString()}`);
+    lines.push(`duration_ms: ${trace.endTime - trace.startTime}`);
+    lines.push('---');
+    lines.push('');
+    lines.push(`# Agent Run: ${buildConversationTitle(trace.userRequest)}`);
+    lines.push('');
+    lines.push('## Request');
+    lines.push('');
+    lines.push(quote(trace.userRequest));
+    lines.push('');
+    lines.push('## Summary');
+    lines.push('');
+    lines.push(`- **Status**: ${trace.status}`);
+    lines.push(`- **Started**: ${new Date(trace.startTime).toLocaleString()}`);
+    lines.push(`- **Duration**: ${formatDuration(trace.endTime - trace.startTime)}`);
+    lines.push(`- **Steps**: ${trace.reasoningHistory.length}/${trace.maxSteps}`);
+    lines.push(`- **Tool calls**: ${actions.length} (${failedCount} failed)`);
+    if (trace.usage) {
+        lines.push(`- **Usage**: ${formatUsage(trace.usage)}`);
+    }
+    lines.push('');
+
+    if (trace.plan && trace.plan.length > 0) {
+        lines.push('## Plan');
+        lines.push('');
+        formatPlanChecklist(trace.plan).split('\n').forEach(line => lines.push(`- ${line}`));
+        lines.push('');
+    }
+
+    lines.push('## Steps');
+
+    const steps = Array.from(new Set([
+        ...trace.reasoningHistory.map(entry => entry.step),
+        ...actions.map(action => action.step)
+    ])).sort((a, b) => a - b);
+
+    for (const step of steps) {
+        lines.push('');
+        const reasoning = trace.reasoningHistory.find(entry => entry.step === step);
+        const offset = reasoning ? ` (+${formatDuration(reasoning.timestamp - trace.startTime)})` : '';
+        lines.push(`### Step ${step}${offset}`);
+        lines.push('');
+
+        if (reasoning) {
+            lines.push(`**Decision**: ${reasoning.decision} · **Goal status**: ${reasoning.goalStatus}`);
+            lines.push('');
+            lines.push(reasoning.reasoning);
+        }
+
+        for (const action of actions.filter(a => a.step === step)) {
+            lines.push('');
+            lines.push(formatActionCallout(action));
+        }
+    }
+
+    const media = [...(trace.generatedImagePaths || []), ...(trace.generatedAudioPaths || [])];
+    if (media.length > 0) {
+        lines.push('');
+        lines.push('## Generated Media');
+        lines.push('');
+        media.forEach(path => lines.push(`- ![[${path}]]`));
+    }
+
+    lines.push('');
+    lines.push('## Final Result');
+    lines.push('');
+    lines.push(trace.finalResult);
+    lines.push('');
+
+    return lines.join('\n');
+}
+
+/**
+ * Render one history entry as a folded callout (success or failure)
+ */
+function formatActionCallout(action: ActionResult): string {
+    const kind = action.success ? 'success' : 'failure';
+    const duration = action.durationMs !== undefined ? ` · ${formatDuration(action.durationMs)}` : '';
+    const body = [
+        `**History ID**: \`${action.historyId}\``,
+        `**Justification**: ${action.justification || '(none given)'}`,
+        ...(action.error ? [`**Error**: ${action.error.kind}${action.error.retryable ? ' (retryable)' : ''}`] : []),
+        '',
+        '**Parameters**',
+        fence(JSON.stringify(action.parameters || {}, null, 2), 'json'),
+        '',
+        '**Result**',
+        fence(action.result, '')
+    ].join('\n');
+
+    return `> [!${kind}]- ${action.tool} (${action.server})${duration}\n${quote(body)}`;
+}
+
+/**
+ * Wrap content in a code fence longer than any backtick run it contains
+ */
+function fence(content: string, language: string): string {
+    const longestRun = Math.max(0, ...(content.match(/`+/g) || []).map(run => run.length));
+    const marker = '`'.repeat(Math.max(3, longestRun + 1));
+    return `${marker}${language}\n${content}\n${marker}`;
+}
+
+function quote(text: string): string {
+    return text.split('\n').map(line => line ? `> ${line}` : '>').join('\n');
+}
@@ -0,0 +1,107 @@
+/**
+ * Utility functions for token usage and cost accounting
+ * Shared between Chat mode and Agent mode providers
+ */
+
+import { ModelPricing, TokenUsage } from '../core/types';
+
+export type UsageListener = (usage: TokenUsage) => void;
+
+/**
+ * Normalize a provider's usage object to TokenUsage
+ * Accepts OpenAI (prompt_tokens/completion_tokens), Anthropic-style (input_tokens/output_tokens)
+ * and LLM CLI (input/output) field names; returns undefined when no counts are present
+ */
+export function parseUsage(raw: any, model?: string): TokenUsage | undefined {
+    if (!raw || typeof raw !== 'object') {
+        return undefined;
+    }
+
+    const promptTokens = Number(raw.prompt_tokens ?? raw.input_tokens ?? raw.input ?? raw.promptTokens);
+    const completionTokens = Number(raw.completion_tokens ?? raw.output_tokens ?? raw.output ?? raw.completionTokens);
+
+    if (isNaN(promptTokens) && isNaN(completionTokens)) {
+        return undefined;
+    }
+
+    const prompt = isNaN(promptTokens) ? 0 : promptTokens;
+    const completion = isNaN(completionTokens) ? 0 : completionTokens;
+
+    return {
+        promptTokens: prompt,
+        completionTokens: completion,
+        totalTokens: Number(raw.total_tokens ?? raw.totalTokens) || prompt + completion,
+        model,
+        calls: 1
+    };
+}
+
+/**
+ * Rough token estimate (~4 characters per token) for providers that report no usage
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil((text || '').length / 4);
+}
+
+/**
+ * Estimate usage for a call from its prompt and completion text
+ */
+export function estimateUsage(prompt: string, completion: string, model?: string): TokenUsage {
+    const promptTokens = estimateTokens(prompt);
+    const completionTokens = estimateTokens(completion);
+
+    return {
+        promptTokens,
+        completionTokens,
+        totalTokens: promptTokens + completionTokens,
+        estimated: true,
+        model,
+        calls: 1
+    };
+}
+
+/**
+ * Calculate the USD cost of a usage record from per-million token prices
+ */
+export function calculateCost(usage: TokenUsage, pricing: ModelPricing): number {
+    return (usage.promptTokens * pricing.inputPerMillion + usage.completionTokens * pricing.outputPerMillion) / 1000000;
+}
+
+/**
+ * Add a usage record to a running total
+ * Cost stays defined only while every added record has a cost
+ */
+export function addUsage(total: TokenUsage | undefined, usage: TokenUsage): TokenUsage {
+    if (!total) {
+        return { ...usage, calls: usage.calls || 1 };
+    }
+
+    return {
+        promptTokens: total.promptTokens + usage.promptTokens,
+        completionTokens: total.completionTokens + usage.completionTokens,
+        totalTokens: total.totalTokens + usage.totalTokens,
+        cost: total.cost !== undefined && usage.cost !== undefined ? total.cost + usage.cost : undefined,
+        estimated: total.estimated || usage.estimated || undefined,
+        model: total.model === usage.model ? total.model : undefined,
+        calls: (total.calls || 1) + (usage.calls || 1)
+    };
+}
+
+/**
+ * Format usage for display, e.g. "1,234 tokens (1,000 in / 234 out) · $0.0042 · 3 calls"
+ */
+export function formatUsage(usage: TokenUsage): string {
+    const approx = usage.estimated ? '~' : '';
+    let text = `${approx}${usage.totalTokens.toLocaleString()} tokens ` +
+        `(${usage.promptTokens.toLocaleString()} in / ${usage.completionTokens.toLocaleString()} out)`;
+
+    if (usage.cost !== undefined) {
+        text += ` · ${approx}$${usage.cost.toFixed(4)}`;
+    }
+
+    if (usage.calls && usage.calls > 1) {
+        text += ` · ${usage.calls} calls`;
+    }
+
+    return text;
+}